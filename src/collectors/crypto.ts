@@ -1,139 +1,158 @@
 import axios from 'axios';
-import { XMLParser } from 'fast-xml-parser';
-import { NewsItem, CryptoPrice, CryptoCollectionResult } from '../types/index';
-import { withRetry, log, truncate, stripHtml, cleanGoogleNewsTitle } from '../utils/helpers';
+import { CryptoPrice, CryptoCollectionResult, Collector, CryptoCoin } from '../types/index';
+import { config } from '../config';
+import { withRetry, log, escapeHtml, formatCompactNumber, formatPriceComparison } from '../utils/helpers';
+import { collectFromSources, getCategoryLimit } from './sources';
+import { clusterStories } from '../services/clustering';
+import { rankNews } from '../services/ranking';
+import { buildEntityDictionary, tagEntities } from '../services/entity-tagger';
+
+const COINGECKO_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price';
+const COINGECKO_GLOBAL_URL = 'https://api.coingecko.com/api/v3/global';
+const DOMINANCE_SYMBOLS = 2; // How many of the top coins to show market dominance for
+
+export const cryptoCollector: Collector<CryptoCollectionResult> = {
+  category: 'crypto',
+  title: 'CRYPTO',
+  emoji: '🪙',
+  maxItems: 5,
+  collect: collectCryptoNews,
+  emptyResult() {
+    return { prices: [], dominance: {}, news: [], errors: [] };
+  },
+  renderOverview({ prices, dominance }, { comparisons }) {
+    if (prices.length === 0) {
+      return `💰 <b>Prices:</b> N/A\n\n`;
+    }
+
+    let html = '';
+    for (const p of prices) {
+      const change = p.change24hPercent;
+      const emoji = change === undefined ? '⚪' : change >= 0 ? '🟢' : '🔴';
+      const changeStr = change === undefined ? '' : ` (${change >= 0 ? '+' : ''}${change.toFixed(2)}%)`;
+      const priceStr = `$${p.priceUsd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: p.priceUsd < 1 ? 6 : 2 })}`;
+      const inrStr = p.priceInr ? ` · ₹${p.priceInr.toLocaleString('en-IN', { maximumFractionDigits: 2 })}` : '';
+      const extras = [
+        p.marketCapUsd ? `MCap $${formatCompactNumber(p.marketCapUsd)}` : '',
+        p.volume24hUsd ? `Vol $${formatCompactNumber(p.volume24hUsd)}` : '',
+      ].filter(Boolean).join(' · ');
+
+      const history = formatPriceComparison(comparisons.get(p.symbol));
+      const details = [extras, history].filter(Boolean).join(' · ');
+
+      html += `${emoji} <b>${escapeHtml(p.symbol)}</b>: ${priceStr}${changeStr}${inrStr}\n`;
+      if (details) html += `    <i>${details}</i>\n`;
+    }
 
-const COINGECKO_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin,ethereum&vs_currencies=usd,inr&include_24hr_change=true';
-const CRYPTOCOMPARE_NEWS_URL = 'https://min-api.cryptocompare.com/data/v2/news/?lang=EN&sortOrder=latest';
-const COINDESK_RSS = 'https://www.coindesk.com/feed/';
-const COINTELEGRAPH_RSS = 'https://cointelegraph.com/rss';
+    const dominanceParts = Object.entries(dominance)
+      .slice(0, DOMINANCE_SYMBOLS)
+      .map(([symbol, share]) => `${escapeHtml(symbol)} ${share.toFixed(1)}%`);
+    if (dominanceParts.length > 0) {
+      html += `📊 Dominance: ${dominanceParts.join(' · ')}\n`;
+    }
 
-const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
+    return html + '\n';
+  },
+  pricePoints({ prices }) {
+    return prices.map(p => ({ symbol: p.symbol, kind: 'crypto', price: p.priceUsd, currency: 'USD' }));
+  },
+  emptyMessage() {
+    return 'No verified crypto news available.';
+  },
+};
 
 export async function collectCryptoNews(): Promise<CryptoCollectionResult> {
   const errors: string[] = [];
-  let price: CryptoPrice = { symbol: 'BTC', priceUsd: 0 };
-  const allNews: NewsItem[] = [];
-
-  const [priceResult, ...newsResults] = await Promise.allSettled([
-    fetchBtcPrice(),
-    fetchCryptoCompareNews(),
-    fetchRssFeed(COINDESK_RSS, 'CoinDesk'),
-    fetchRssFeed(COINTELEGRAPH_RSS, 'CoinTelegraph'),
-    fetchGoogleCryptoNews(),
+  let prices: CryptoPrice[] = [];
+  let dominance: Record<string, number> = {};
+
+  const [priceResult, dominanceResult, newsResult] = await Promise.allSettled([
+    fetchCoinPrices(config.cryptoCoins),
+    fetchMarketDominance(),
+    collectFromSources('crypto'),
   ]);
 
   if (priceResult.status === 'fulfilled') {
-    price = priceResult.value;
+    prices = priceResult.value;
   } else {
-    errors.push(`BTC price fetch failed: ${priceResult.reason}`);
-    log('error', 'BTC price fetch failed', { error: String(priceResult.reason) });
+    errors.push(`Crypto price fetch failed: ${priceResult.reason}`);
+    log('error', 'Crypto price fetch failed', { error: String(priceResult.reason) });
   }
 
-  for (const result of newsResults) {
-    if (result.status === 'fulfilled') {
-      allNews.push(...result.value);
-    } else {
-      errors.push(`Crypto news source failed: ${result.reason}`);
-      log('warn', 'Crypto news source failed', { error: String(result.reason) });
-    }
+  if (dominanceResult.status === 'fulfilled') {
+    dominance = dominanceResult.value;
+  } else {
+    // Dominance is a nice-to-have; the section renders fine without it
+    log('warn', 'Crypto dominance fetch failed', { error: String(dominanceResult.reason) });
   }
 
-  const unique = deduplicateByTitle(allNews);
-  unique.sort((a, b) => {
-    const dateA = a.publishedAt?.getTime() || 0;
-    const dateB = b.publishedAt?.getTime() || 0;
-    return dateB - dateA;
-  });
+  const allNews = newsResult.status === 'fulfilled' ? newsResult.value.news : [];
+  if (newsResult.status === 'fulfilled') {
+    errors.push(...newsResult.value.errors);
+  } else {
+    errors.push(`Crypto news sources failed: ${newsResult.reason}`);
+  }
 
-  log('info', `[CRYPTO] Fetched ${allNews.length} raw items, ${unique.length} after local dedup`);
+  const tagged = tagEntities(clusterStories(allNews), buildEntityDictionary([], config.cryptoCoins));
+  const unique = rankNews(tagged, { watchSymbols: config.cryptoCoins.map(c => c.symbol) });
+
+  log('info', `[CRYPTO] Fetched ${allNews.length} raw items, ${unique.length} stories after clustering, ${prices.length} prices`);
 
   return {
-    price,
-    news: unique.slice(0, 8),
+    prices,
+    dominance,
+    news: unique.slice(0, getCategoryLimit('crypto')),
     errors,
+    dropped: newsResult.status === 'fulfilled' ? newsResult.value.dropped : undefined,
   };
 }
 
-async function fetchBtcPrice(): Promise<CryptoPrice> {
+export async function fetchCoinPrices(coins: CryptoCoin[]): Promise<CryptoPrice[]> {
   return withRetry(async () => {
-    const response = await axios.get(COINGECKO_PRICE_URL, { timeout: 10000 });
+    const response = await axios.get(COINGECKO_PRICE_URL, {
+      timeout: 10000,
+      params: {
+        ids: coins.map(c => c.id).join(','),
+        vs_currencies: 'usd,inr',
+        include_24hr_change: true,
+        include_market_cap: true,
+        include_24hr_vol: true,
+      },
+    });
     const data = response.data;
-    return {
-      symbol: 'BTC',
-      priceUsd: data.bitcoin.usd,
-      priceInr: data.bitcoin.inr,
-    };
-  }, 3, 2000, 'CoinGecko BTC price');
-}
 
-async function fetchCryptoCompareNews(): Promise<NewsItem[]> {
-  return withRetry(async () => {
-    const response = await axios.get(CRYPTOCOMPARE_NEWS_URL, { timeout: 15000 });
-    const articles = response.data?.Data || [];
-    return articles.slice(0, 10).map((article: any) => ({
-      title: article.title || '',
-      url: article.url || '',
-      source: article.source_info?.name || article.source || 'CryptoCompare',
-      category: 'crypto' as const,
-      publishedAt: article.published_on ? new Date(article.published_on * 1000) : undefined,
-      summary: truncate(stripHtml(article.body || ''), 200),
-    }));
-  }, 2, 3000, 'CryptoCompare news');
-}
+    const prices: CryptoPrice[] = [];
+    for (const coin of coins) {
+      const entry = data?.[coin.id];
+      if (!entry || typeof entry.usd !== 'number') {
+        log('warn', `No CoinGecko price for ${coin.id}`);
+        continue;
+      }
+      prices.push({
+        symbol: coin.symbol,
+        priceUsd: entry.usd,
+        priceInr: entry.inr,
+        change24hPercent: entry.usd_24h_change,
+        marketCapUsd: entry.usd_market_cap,
+        volume24hUsd: entry.usd_24h_vol,
+      });
+    }
 
-async function fetchRssFeed(feedUrl: string, sourceName: string): Promise<NewsItem[]> {
-  return withRetry(async () => {
-    const response = await axios.get(feedUrl, {
-      timeout: 15000,
-      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
-    });
-    const parsed = xmlParser.parse(response.data);
-    const items = parsed?.rss?.channel?.item || [];
-    const itemArray = Array.isArray(items) ? items : [items];
-
-    return itemArray.slice(0, 10).map((item: any) => ({
-      title: String(item.title || ''),
-      url: String(item.link || ''),
-      source: sourceName,
-      category: 'crypto' as const,
-      publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
-      summary: truncate(stripHtml(String(item.description || '')), 200),
-    }));
-  }, 2, 3000, `RSS ${sourceName}`);
+    if (prices.length === 0) {
+      throw new Error('CoinGecko returned no prices for the configured coins');
+    }
+    return prices;
+  }, 3, 2000, 'CoinGecko prices');
 }
 
-async function fetchGoogleCryptoNews(): Promise<NewsItem[]> {
+async function fetchMarketDominance(): Promise<Record<string, number>> {
   return withRetry(async () => {
-    const url = 'https://news.google.com/rss/search?q=bitcoin+crypto+cryptocurrency&hl=en&gl=US&ceid=US:en';
-    const response = await axios.get(url, {
-      timeout: 15000,
-      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
-    });
-    const parsed = xmlParser.parse(response.data);
-    const items = parsed?.rss?.channel?.item || [];
-    const itemArray = Array.isArray(items) ? items : [items];
-
-    return itemArray.slice(0, 8).map((item: any) => {
-      const { cleanTitle, source } = cleanGoogleNewsTitle(String(item.title || ''));
-      return {
-        title: cleanTitle,
-        url: String(item.link || ''),
-        source,
-        category: 'crypto' as const,
-        publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
-        summary: truncate(stripHtml(String(item.description || '')), 200),
-      };
-    });
-  }, 2, 3000, 'Google News Crypto');
-}
-
-function deduplicateByTitle(items: NewsItem[]): NewsItem[] {
-  const seen = new Set<string>();
-  return items.filter(item => {
-    const key = item.title.toLowerCase().trim().replace(/\s+/g, ' ');
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+    const response = await axios.get(COINGECKO_GLOBAL_URL, { timeout: 10000 });
+    const shares: Record<string, number> = response.data?.data?.market_cap_percentage || {};
+    return Object.fromEntries(
+      Object.entries(shares)
+        .sort(([, a], [, b]) => b - a)
+        .map(([symbol, share]) => [symbol.toUpperCase(), share])
+    );
+  }, 2, 2000, 'CoinGecko global');
 }
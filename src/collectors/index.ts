@@ -0,0 +1,18 @@
+import { registerCollector } from './registry';
+import { cryptoCollector } from './crypto';
+import { createIndianStocksCollector } from './indian-stocks';
+import { geopoliticalCollector } from './geopolitical';
+import { WatchlistService } from '../services/watchlist';
+
+export { registerCollector, getCollectors, getCollector } from './registry';
+
+export interface BuiltInCollectorDeps {
+  watchlist: WatchlistService;
+}
+
+/** Registers the built-in sections in bulletin order */
+export function registerBuiltInCollectors(deps: BuiltInCollectorDeps): void {
+  registerCollector(cryptoCollector);
+  registerCollector(createIndianStocksCollector(deps.watchlist));
+  registerCollector(geopoliticalCollector);
+}
@@ -1,42 +1,118 @@
-import axios from 'axios';
-import { XMLParser } from 'fast-xml-parser';
-import { NewsItem, StockQuote, StockCollectionResult } from '../types/index';
-import { TRACKED_STOCKS } from '../config';
-import { withRetry, isWeekendIndia, log, truncate, stripHtml, cleanGoogleNewsTitle } from '../utils/helpers';
+import {
+  StockQuote, StockCollectionResult, Collector, GoogleNewsFeedSource, VerifiedNewsItem, MarketId, MarketStatus,
+} from '../types/index';
+import { WatchlistService } from '../services/watchlist';
+import { fetchStockQuotes } from '../services/stock-quotes';
+import {
+  getIndianMarketStatus, getMarketForSymbol, getMarketStatus, describeQuoteMarket,
+} from '../services/market-status';
+import { config } from '../config';
+import { log, escapeHtml, formatPrice, formatPriceComparison, truncate } from '../utils/helpers';
+import { collectFromSources, getCategoryLimit } from './sources';
+import { clusterStories } from '../services/clustering';
+import { rankNews } from '../services/ranking';
+import { buildEntityDictionary, tagEntities } from '../services/entity-tagger';
+
+export function createIndianStocksCollector(watchlist: WatchlistService): Collector<StockCollectionResult> {
+  return {
+    category: 'indian-stocks',
+    title: 'INDIAN MARKET',
+    emoji: '🇮🇳',
+    maxItems: 10,
+    collect: () => collectIndianStockNews(watchlist),
+    emptyResult() {
+      return { quotes: [], news: [], marketStatus: getIndianMarketStatus(), quoteMarkets: {}, errors: [] };
+    },
+    renderOverview({ quotes: allQuotes, marketStatus, quoteMarkets }, { watchlist: watched, comparisons }, news) {
+      const quotes = visibleQuotes(allQuotes, watched);
+      const headlines = groupHeadlinesByQuote(quotes, news);
+      const statusEmoji = marketStatus.isOpen ? '🟢' : '🔴';
+      let html = `📊 ${statusEmoji} <i>${escapeHtml(marketStatus.nextOpenDescription)}</i>\n\n`;
+
+      if (quotes.length > 0) {
+        for (const q of quotes) {
+          const changeSign = q.change >= 0 ? '+' : '';
+          const emoji = q.change >= 0 ? '🟢' : '🔴';
+          const history = formatPriceComparison(comparisons.get(q.symbol));
+          const market = getMarketForSymbol(q.symbol);
+          const foreignStatus = market ? quoteMarkets[market] : undefined;
+          html += `${emoji} <b>${escapeHtml(q.name)}</b>: ${escapeHtml(formatPrice(q.price, q.currency))} (${changeSign}${q.changePercent.toFixed(2)}%)`;
+          if (foreignStatus) html += ` <i>${escapeHtml(describeQuoteMarket(foreignStatus))}</i>`;
+          html += history ? ` <i>${history}</i>\n` : '\n';
+          for (const item of headlines.get(q.symbol) ?? []) {
+            const caveat = item.verificationNote?.startsWith('⚠️') ? ' ⚠️' : '';
+            html += `    ↳ <a href="${escapeHtml(item.url)}">${escapeHtml(truncate(item.title, 100))}</a> <i>${escapeHtml(item.source)}</i>${caveat}\n`;
+          }
+        }
+        html += '\n';
+      }
 
-const GOOGLE_NEWS_STOCK_QUERIES = [
-  'TCS stock news',
-  'CDSL stock news',
-  'HUL Hindustan Unilever stock',
-  'Gold price India',
-  'Indian stock market today',
-];
+      return html;
+    },
+    overviewNews({ quotes }, { watchlist: watched }, news) {
+      return Array.from(groupHeadlinesByQuote(visibleQuotes(quotes, watched), news).values()).flat();
+    },
+    pricePoints({ quotes }) {
+      return quotes.map(q => ({ symbol: q.symbol, kind: 'stock', price: q.price, currency: q.currency }));
+    },
+    emptyMessage({ marketStatus }) {
+      return marketStatus.isTradingDay ? 'No verified market news available.' : null;
+    },
+  };
+}
 
-const NEWSAPI_STOCKS_URL = 'https://newsapi.org/v2/everything?q=indian+stock+market+OR+NSE+OR+Sensex&language=en&sortBy=publishedAt&pageSize=10';
+const HEADLINES_PER_QUOTE = 2;
 
-const RSS_FEEDS = [
-  { url: 'https://www.moneycontrol.com/rss/marketreports.xml', name: 'Moneycontrol' },
-  { url: 'https://economictimes.indiatimes.com/markets/rssfeeds/1977021501.cms', name: 'Economic Times' },
-  { url: 'https://www.livemint.com/rss/markets', name: 'LiveMint' },
-];
+/** Status of every exchange other than NSE that a quote trades on, so foreign listings show their own hours */
+function getQuoteMarkets(quotes: StockQuote[], now: Date = new Date()): Partial<Record<MarketId, MarketStatus>> {
+  const markets: Partial<Record<MarketId, MarketStatus>> = {};
+  for (const quote of quotes) {
+    const market = getMarketForSymbol(quote.symbol);
+    if (market && market !== 'nse' && !markets[market]) markets[market] = getMarketStatus(market, now);
+  }
+  return markets;
+}
 
-const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
+function visibleQuotes(quotes: StockQuote[], watched: string[]): StockQuote[] {
+  return watched.length > 0 ? quotes.filter(q => watched.includes(q.symbol)) : quotes;
+}
 
-export async function collectIndianStockNews(): Promise<StockCollectionResult> {
+/** Up to HEADLINES_PER_QUOTE tagged headlines per quote; a headline naming several stocks goes under the first */
+function groupHeadlinesByQuote(quotes: StockQuote[], news: VerifiedNewsItem[]): Map<string, VerifiedNewsItem[]> {
+  const groups = new Map<string, VerifiedNewsItem[]>();
+  const placed = new Set<VerifiedNewsItem>();
+  for (const quote of quotes) {
+    const items = news
+      .filter(item => !placed.has(item) && item.entities?.includes(quote.symbol))
+      .slice(0, HEADLINES_PER_QUOTE);
+    items.forEach(item => placed.add(item));
+    if (items.length > 0) groups.set(quote.symbol, items);
+  }
+  return groups;
+}
+
+export async function collectIndianStockNews(watchlist: WatchlistService): Promise<StockCollectionResult> {
   const errors: string[] = [];
-  const weekend = isWeekendIndia();
+  const marketStatus = getIndianMarketStatus();
+  const quietDay = !marketStatus.isTradingDay;
+  const stocks = watchlist.getAll();
   let quotes: StockQuote[] = [];
-  const allNews: NewsItem[] = [];
 
-  const fetchTasks: Promise<NewsItem[]>[] = [
-    ...GOOGLE_NEWS_STOCK_QUERIES.map(q => fetchGoogleNewsRss(q)),
-    fetchNewsApiStocks(),
-    ...RSS_FEEDS.map(feed => fetchRssFeed(feed.url, feed.name)),
-  ];
-
-  const [quotesResult, ...newsResults] = await Promise.allSettled([
-    fetchStockQuotes(),
-    ...fetchTasks,
+  // Every watched stock gets its own headline query alongside the configured feeds
+  const stockNewsSources: GoogleNewsFeedSource[] = stocks.map(stock => ({
+    name: `Google News: ${stock.name}`,
+    category: 'indian-stocks',
+    type: 'google-news',
+    query: stock.newsQuery,
+    edition: 'IN',
+    maxItems: 5,
+    timeoutMs: 15000,
+    tier: 3,
+  }));
+
+  const [quotesResult, newsResult] = await Promise.allSettled([
+    fetchStockQuotes(stocks),
+    collectFromSources('indian-stocks', stockNewsSources),
   ]);
 
   if (quotesResult.status === 'fulfilled') {
@@ -46,146 +122,24 @@ export async function collectIndianStockNews(): Promise<StockCollectionResult> {
     log('error', 'Stock quotes failed', { error: String(quotesResult.reason) });
   }
 
-  for (const result of newsResults) {
-    if (result.status === 'fulfilled') {
-      allNews.push(...result.value);
-    } else {
-      errors.push(`Market news source failed: ${result.reason}`);
-      log('warn', 'Market news source failed', { error: String(result.reason) });
-    }
+  const allNews = newsResult.status === 'fulfilled' ? newsResult.value.news : [];
+  if (newsResult.status === 'fulfilled') {
+    errors.push(...newsResult.value.errors);
+  } else {
+    errors.push(`Market news sources failed: ${newsResult.reason}`);
   }
 
-  const unique = deduplicateByTitle(allNews);
-  unique.sort((a, b) => {
-    const dateA = a.publishedAt?.getTime() || 0;
-    const dateB = b.publishedAt?.getTime() || 0;
-    return dateB - dateA;
-  });
+  const tagged = tagEntities(clusterStories(allNews), buildEntityDictionary(stocks, config.cryptoCoins));
+  const unique = rankNews(tagged, { watchSymbols: stocks.map(s => s.symbol) });
 
-  const maxNews = weekend ? 5 : 10;
-  log('info', `[STOCKS] Fetched ${allNews.length} raw items, ${unique.length} after local dedup, weekend=${weekend}`);
+  log('info', `[STOCKS] Fetched ${allNews.length} raw items, ${unique.length} stories after clustering, trading day=${marketStatus.isTradingDay}`);
 
   return {
     quotes,
-    news: unique.slice(0, maxNews),
-    isWeekend: weekend,
+    news: unique.slice(0, getCategoryLimit('indian-stocks', quietDay)),
+    marketStatus,
+    quoteMarkets: getQuoteMarkets(quotes),
     errors,
+    dropped: newsResult.status === 'fulfilled' ? newsResult.value.dropped : undefined,
   };
 }
-
-async function fetchStockQuotes(): Promise<StockQuote[]> {
-  return withRetry(async () => {
-    const mod = await import('yahoo-finance2');
-    const yahooFinance = mod.default;
-
-    const results = await Promise.allSettled(
-      TRACKED_STOCKS.map(stock => (yahooFinance as any).quote(stock.symbol))
-    );
-
-    const quotes: StockQuote[] = [];
-    for (let i = 0; i < results.length; i++) {
-      const result = results[i];
-      const stock = TRACKED_STOCKS[i];
-      if (result.status === 'fulfilled' && result.value) {
-        const q = result.value;
-        quotes.push({
-          symbol: stock.symbol,
-          name: stock.name,
-          price: q.regularMarketPrice || 0,
-          currency: q.currency || 'INR',
-          change: q.regularMarketChange || 0,
-          changePercent: q.regularMarketChangePercent || 0,
-          dayHigh: q.regularMarketDayHigh,
-          dayLow: q.regularMarketDayLow,
-          marketState: q.marketState || 'UNKNOWN',
-        });
-      } else {
-        log('warn', `Failed to fetch quote for ${stock.symbol}`, {
-          error: result.status === 'rejected' ? String(result.reason) : 'empty result',
-        });
-      }
-    }
-    return quotes;
-  }, 2, 3000, 'Yahoo Finance quotes');
-}
-
-async function fetchGoogleNewsRss(query: string): Promise<NewsItem[]> {
-  return withRetry(async () => {
-    const encodedQuery = encodeURIComponent(query);
-    const url = `https://news.google.com/rss/search?q=${encodedQuery}&hl=en-IN&gl=IN&ceid=IN:en`;
-    const response = await axios.get(url, {
-      timeout: 15000,
-      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
-    });
-    const parsed = xmlParser.parse(response.data);
-    const items = parsed?.rss?.channel?.item || [];
-    const itemArray = Array.isArray(items) ? items : [items];
-
-    return itemArray.slice(0, 5).map((item: any) => {
-      const { cleanTitle, source } = cleanGoogleNewsTitle(String(item.title || ''));
-      return {
-        title: cleanTitle,
-        url: String(item.link || ''),
-        source,
-        category: 'indian-stocks' as const,
-        publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
-        summary: truncate(stripHtml(String(item.description || '')), 200),
-      };
-    });
-  }, 2, 3000, `Google News: ${query}`);
-}
-
-async function fetchNewsApiStocks(): Promise<NewsItem[]> {
-  const apiKey = process.env.NEWS_API_KEY;
-  if (!apiKey) {
-    log('warn', 'NEWS_API_KEY not set, skipping NewsAPI for stocks');
-    return [];
-  }
-
-  return withRetry(async () => {
-    const response = await axios.get(NEWSAPI_STOCKS_URL, {
-      timeout: 15000,
-      headers: { 'X-Api-Key': apiKey },
-    });
-    const articles = response.data?.articles || [];
-    return articles.slice(0, 10).map((article: any) => ({
-      title: article.title || '',
-      url: article.url || '',
-      source: article.source?.name || 'NewsAPI',
-      category: 'indian-stocks' as const,
-      publishedAt: article.publishedAt ? new Date(article.publishedAt) : undefined,
-      summary: truncate(article.description || '', 200),
-    }));
-  }, 2, 3000, 'NewsAPI stocks');
-}
-
-async function fetchRssFeed(feedUrl: string, sourceName: string): Promise<NewsItem[]> {
-  return withRetry(async () => {
-    const response = await axios.get(feedUrl, {
-      timeout: 15000,
-      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
-    });
-    const parsed = xmlParser.parse(response.data);
-    const items = parsed?.rss?.channel?.item || [];
-    const itemArray = Array.isArray(items) ? items : [items];
-
-    return itemArray.slice(0, 8).map((item: any) => ({
-      title: String(item.title || ''),
-      url: String(item.link || ''),
-      source: sourceName,
-      category: 'indian-stocks' as const,
-      publishedAt: item.pubDate ? new Date(item.pubDate) : undefined,
-      summary: truncate(stripHtml(String(item.description || '')), 200),
-    }));
-  }, 2, 3000, `RSS ${sourceName}`);
-}
-
-function deduplicateByTitle(items: NewsItem[]): NewsItem[] {
-  const seen = new Set<string>();
-  return items.filter(item => {
-    const key = item.title.toLowerCase().trim().replace(/\s+/g, ' ');
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
-}
@@ -0,0 +1,18 @@
+import { Collector, CollectionResult, NewsCategory } from '../types/index';
+
+const collectors = new Map<NewsCategory, Collector>();
+
+export function registerCollector<R extends CollectionResult>(collector: Collector<R>): void {
+  if (collectors.has(collector.category)) {
+    throw new Error(`Collector already registered for category: ${collector.category}`);
+  }
+  collectors.set(collector.category, collector);
+}
+
+export function getCollectors(): Collector[] {
+  return Array.from(collectors.values());
+}
+
+export function getCollector(category: NewsCategory): Collector | undefined {
+  return collectors.get(category);
+}
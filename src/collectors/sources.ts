@@ -0,0 +1,239 @@
+import axios from 'axios';
+import {
+  NewsItem, NewsCategory, DroppedItemCounts, SourceTier, SourceReputation, FeedSource, RssFeedSource, GoogleNewsFeedSource, NewsApiFeedSource, JsonFeedSource,
+} from '../types/index';
+import { config, TIER_1_SOURCES } from '../config';
+import { withRetry, log, truncate, stripHtml, cleanGoogleNewsTitle } from '../utils/helpers';
+import { parseFeed } from '../utils/feed-parser';
+import { parseNewsDate, isValidDate } from '../utils/dates';
+import { MIN_REPUTATION_VERDICTS } from '../services/source-reputation';
+
+// Publisher clocks and zone mistakes put some items slightly ahead; beyond this a date is not believable
+export const MAX_FUTURE_SKEW_MS = 30 * 60 * 1000;
+
+/**
+ * Fetches every configured source for a category, plus any runtime `extraSources`, in parallel,
+ * and normalizes the results (see normalizeNews).
+ * `include` narrows the sources, e.g. to skip rate-limited APIs on frequent passes.
+ * Failing sources are reported in `errors` and never reject the whole collection.
+ */
+export async function collectFromSources(
+  category: NewsCategory,
+  extraSources: FeedSource[] = [],
+  include: (source: FeedSource) => boolean = () => true
+): Promise<{ news: NewsItem[]; errors: string[]; dropped: DroppedItemCounts }> {
+  const sources = [...config.feeds.sources.filter(s => s.category === category), ...extraSources].filter(include);
+  const results = await Promise.allSettled(sources.map(source => fetchSource(source)));
+
+  const news: NewsItem[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      news.push(...result.value);
+    } else {
+      errors.push(`${sources[i].name} failed: ${result.reason}`);
+      log('warn', `News source failed: ${sources[i].name}`, { category, error: String(result.reason) });
+    }
+  });
+
+  const { kept, dropped } = normalizeNews(news, category);
+  const droppedTotal = countDropped(dropped);
+  if (droppedTotal > 0) {
+    log('info', `[${category}] Dropped ${droppedTotal}/${news.length} items`, { ...dropped });
+  }
+
+  return { news: kept, errors, dropped };
+}
+
+/**
+ * The shared step every collected item passes through: trims titles and links,
+ * and drops items with no title or link, an unparsable date, a date more than
+ * MAX_FUTURE_SKEW_MS ahead, or one older than the category's maxAgeHours.
+ * Undated items are kept; ranking gives them a fixed recency instead.
+ */
+export function normalizeNews(
+  items: NewsItem[],
+  category: NewsCategory,
+  now: Date = new Date()
+): { kept: NewsItem[]; dropped: DroppedItemCounts } {
+  const dropped: DroppedItemCounts = { stale: 0, future: 0, badDate: 0, incomplete: 0 };
+  const maxAgeMs = (config.feeds.categories[category]?.maxAgeHours ?? 72) * 60 * 60 * 1000;
+  const kept: NewsItem[] = [];
+
+  for (const item of items) {
+    const title = item.title.trim();
+    const url = item.url.trim();
+    if (!title || !url) {
+      dropped.incomplete++;
+      continue;
+    }
+
+    const { publishedAt } = item;
+    if (publishedAt && !isValidDate(publishedAt)) {
+      dropped.badDate++;
+      continue;
+    }
+    if (publishedAt && publishedAt.getTime() - now.getTime() > MAX_FUTURE_SKEW_MS) {
+      dropped.future++;
+      continue;
+    }
+    if (publishedAt && now.getTime() - publishedAt.getTime() > maxAgeMs) {
+      dropped.stale++;
+      continue;
+    }
+
+    kept.push({ ...item, title, url });
+  }
+
+  return { kept, dropped };
+}
+
+export function countDropped(dropped: DroppedItemCounts): number {
+  return dropped.stale + dropped.future + dropped.badDate + dropped.incomplete;
+}
+
+/** Max items a category keeps after local dedup, from the feeds config; `weekendMaxItems` applies on any non-trading day */
+export function getCategoryLimit(category: NewsCategory, isNonTradingDay: boolean = false): number {
+  const settings = config.feeds.categories[category];
+  if (!settings) return 8;
+  return isNonTradingDay && settings.weekendMaxItems ? settings.weekendMaxItems : settings.maxItems;
+}
+
+export function fetchSource(source: FeedSource): Promise<NewsItem[]> {
+  switch (source.type) {
+    case 'rss':
+      return fetchRssFeed(source);
+    case 'google-news':
+      return fetchGoogleNewsRss(source);
+    case 'newsapi':
+      return fetchNewsApi(source);
+    case 'json':
+      return fetchJsonFeed(source);
+  }
+}
+
+async function fetchRssFeed(source: RssFeedSource): Promise<NewsItem[]> {
+  return withRetry(async () => {
+    const response = await axios.get(source.url, {
+      timeout: source.timeoutMs,
+      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
+    });
+    return parseFeed(String(response.data), {
+      source: source.name,
+      category: source.category,
+      maxItems: source.maxItems,
+    });
+  }, 2, 3000, `RSS ${source.name}`);
+}
+
+async function fetchGoogleNewsRss(source: GoogleNewsFeedSource): Promise<NewsItem[]> {
+  return withRetry(async () => {
+    const edition = source.edition;
+    const language = edition === 'US' ? 'en' : `en-${edition}`;
+    const url = `https://news.google.com/rss/search?q=${encodeURIComponent(source.query)}&hl=${language}&gl=${edition}&ceid=${edition}:en`;
+    const response = await axios.get(url, {
+      timeout: source.timeoutMs,
+      headers: { 'User-Agent': 'NewsPulseBot/1.0' },
+    });
+    const items = parseFeed(String(response.data), {
+      source: source.name,
+      category: source.category,
+      maxItems: source.maxItems,
+    });
+
+    return items.map(item => {
+      const { cleanTitle, source: publisher } = cleanGoogleNewsTitle(item.title);
+      return { ...item, title: cleanTitle, source: publisher };
+    });
+  }, 2, 3000, `Google News: ${source.query}`);
+}
+
+async function fetchNewsApi(source: NewsApiFeedSource): Promise<NewsItem[]> {
+  const apiKey = config.newsApiKey;
+  if (!apiKey) {
+    log('warn', `NEWS_API_KEY not set, skipping ${source.name}`);
+    return [];
+  }
+
+  return withRetry(async () => {
+    const response = await axios.get(source.url, {
+      timeout: source.timeoutMs,
+      headers: { 'X-Api-Key': apiKey },
+    });
+    const articles = response.data?.articles || [];
+    return articles.slice(0, source.maxItems).map((article: any) => ({
+      title: article.title || '',
+      url: article.url || '',
+      source: article.source?.name || 'NewsAPI',
+      category: source.category,
+      publishedAt: parseNewsDate(article.publishedAt),
+      summary: truncate(article.description || '', 200),
+    }));
+  }, 2, 3000, source.name);
+}
+
+async function fetchJsonFeed(source: JsonFeedSource): Promise<NewsItem[]> {
+  return withRetry(async () => {
+    const response = await axios.get(source.url, { timeout: source.timeoutMs });
+    const articles = getPath(response.data, source.itemsPath);
+    if (!Array.isArray(articles)) return [];
+
+    const { fields } = source;
+    return articles.slice(0, source.maxItems).map((article: any) => {
+      const rawDate = fields.publishedAt ? getPath(article, fields.publishedAt) : undefined;
+      return {
+        title: String(getPath(article, fields.title) || ''),
+        url: String(getPath(article, fields.url) || ''),
+        source: String((fields.source && getPath(article, fields.source)) || source.name),
+        category: source.category,
+        publishedAt: parseNewsDate(source.dateFormat === 'epoch-seconds' && rawDate ? Number(rawDate) * 1000 : rawDate),
+        summary: fields.summary ? truncate(stripHtml(String(getPath(article, fields.summary) || '')), 200) : undefined,
+      };
+    });
+  }, 2, 3000, source.name);
+}
+
+function getPath(value: any, dotPath: string): any {
+  return dotPath.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), value);
+}
+
+// Learned reputation, wired up at startup so tiers follow verification history
+let reputationLookup: (source: string) => SourceReputation | undefined = () => undefined;
+
+export function setReputationLookup(lookup: (source: string) => SourceReputation | undefined): void {
+  reputationLookup = lookup;
+}
+
+/** Reputation score below which a well-sampled source counts as tier 3, and at or above which tier 1 */
+const TIER_3_BELOW = 0.55;
+const TIER_1_FROM = 0.8;
+
+// Stand-in scores for sources without enough verdicts yet
+const TIER_SCORES: Record<SourceTier, number> = { 1: 0.85, 2: 0.65, 3: 0.45 };
+
+/**
+ * Learned tier once a source has enough AI verdicts, otherwise its tier from the
+ * feeds config, then the static tier-1 list; unknown outlets are tier 3.
+ */
+export function getSourceTier(source: string): SourceTier {
+  const learned = reputationLookup(source);
+  if (learned && learned.total >= MIN_REPUTATION_VERDICTS) {
+    return learned.score >= TIER_1_FROM ? 1 : learned.score >= TIER_3_BELOW ? 2 : 3;
+  }
+  return getConfiguredTier(source);
+}
+
+/** 0-1 reliability for ranking: the learned score once well sampled, else a stand-in for the configured tier */
+export function getSourceReputationScore(source: string): number {
+  const learned = reputationLookup(source);
+  if (learned && learned.total >= MIN_REPUTATION_VERDICTS) return learned.score;
+  return TIER_SCORES[getConfiguredTier(source)];
+}
+
+function getConfiguredTier(source: string): SourceTier {
+  const configured = config.feeds.sources.find(s => s.name === source);
+  if (configured) return configured.tier;
+  const lower = source.toLowerCase();
+  return TIER_1_SOURCES.some(s => lower.includes(s.toLowerCase())) ? 1 : 3;
+}
@@ -1,6 +1,11 @@
 import dotenv from 'dotenv';
+import cron from 'node-cron';
+import fs from 'fs';
 import path from 'path';
-import { AppConfig, AIModelConfig, AIProvider } from './types/index';
+import { isValidTimeZone, parseTimeList } from './utils/helpers';
+import {
+  AppConfig, AIModelConfig, MissingVerdictPolicy, VerificationRules, BreakingNewsConfig, DigestConfig, AIProvider, FeedsConfig, FeedSource, CategoryFeedSettings, RankingWeights, HolidayCalendar, SourceTier, WatchlistEntry, CryptoCoin,
+} from './types/index';
 
 dotenv.config();
 
@@ -12,56 +17,568 @@ function requireEnv(name: string): string {
   return value;
 }
 
-function resolveAIModel(): AIModelConfig {
-  const provider = (process.env.AI_PROVIDER || 'claude').toLowerCase() as AIProvider;
+const AI_PROVIDERS: AIProvider[] = ['claude', 'openai', 'grok', 'openai-compatible'];
 
+/**
+ * Parses AI_PROVIDERS (e.g. 'claude,openai,grok') into the verifier's failover chain,
+ * or an empty chain for AI_PROVIDER=rules,
+ * falling back to the single AI_PROVIDER. AI_MODEL overrides the first provider's model;
+ * CLAUDE_MODEL, OPENAI_MODEL and GROK_MODEL override any provider's.
+ */
+function resolveAIModels(): AIModelConfig[] {
+  const raw = process.env.AI_PROVIDERS || process.env.AI_PROVIDER || 'claude';
+  const entries = Array.from(new Set(raw.split(',').map(p => p.trim().toLowerCase()).filter(Boolean)));
+
+  // 'rules' is the offline verifier: it ends every chain anyway, and alone means no AI at all
+  const providers = entries.filter(p => p !== 'rules');
+  const unknown = providers.filter(p => !AI_PROVIDERS.includes(p as AIProvider));
+  if (unknown.length > 0 || entries.length === 0) {
+    throw new Error(`Invalid AI provider list "${raw}": expected a comma-separated list of ${[...AI_PROVIDERS, 'rules'].join(', ')}`);
+  }
+
+  return providers.map((provider, i) => resolveAIModel(provider as AIProvider, i === 0 ? process.env.AI_MODEL : undefined));
+}
+
+function resolveAIModel(provider: AIProvider, modelOverride?: string): AIModelConfig {
   switch (provider) {
     case 'openai':
       return {
         provider: 'openai',
-        model: process.env.AI_MODEL || 'gpt-4o',
+        model: modelOverride || process.env.OPENAI_MODEL || 'gpt-4o',
         apiKey: requireEnv('OPENAI_API_KEY'),
       };
 
     case 'grok':
       return {
         provider: 'grok',
-        model: process.env.AI_MODEL || 'grok-3-mini-fast',
+        model: modelOverride || process.env.GROK_MODEL || 'grok-3-mini-fast',
         apiKey: requireEnv('XAI_API_KEY'),
-        baseUrl: 'https://api.x.ai/v1',
+        baseUrl: process.env.GROK_BASE_URL || 'https://api.x.ai/v1',
       };
 
+    case 'openai-compatible':
+      return resolveOpenAICompatibleModel(modelOverride);
+
     case 'claude':
-    default:
       return {
         provider: 'claude',
-        model: process.env.AI_MODEL || 'claude-sonnet-4-20250514',
+        model: modelOverride || process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514',
         apiKey: requireEnv('ANTHROPIC_API_KEY'),
       };
   }
 }
 
+/** A self-hosted server speaking the OpenAI chat-completions API, e.g. Ollama, vLLM or llama.cpp */
+function resolveOpenAICompatibleModel(modelOverride?: string): AIModelConfig {
+  const baseUrl = requireEnv('OPENAI_COMPATIBLE_BASE_URL');
+  if (!isValidUrl(baseUrl)) {
+    throw new Error(`Invalid OPENAI_COMPATIBLE_BASE_URL "${baseUrl}": expected an http(s) URL such as http://localhost:11434/v1`);
+  }
+
+  const model = modelOverride || process.env.OPENAI_COMPATIBLE_MODEL;
+  if (!model) {
+    throw new Error('Missing required environment variable: OPENAI_COMPATIBLE_MODEL');
+  }
+
+  let headers: Record<string, string> | undefined;
+  const rawHeaders = process.env.OPENAI_COMPATIBLE_HEADERS;
+  if (rawHeaders) {
+    try {
+      headers = JSON.parse(rawHeaders);
+    } catch {
+      headers = undefined;
+    }
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers) ||
+      Object.values(headers).some(v => typeof v !== 'string')) {
+      throw new Error('Invalid OPENAI_COMPATIBLE_HEADERS: expected a JSON object of string values, e.g. {"X-Token":"abc"}');
+    }
+  }
+
+  return {
+    provider: 'openai-compatible',
+    model,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+    baseUrl,
+    timeoutMs: resolvePositiveIntEnv('OPENAI_COMPATIBLE_TIMEOUT_MS', 60000),
+    headers,
+  };
+}
+
+export function loadVerificationRules(filePath: string): VerificationRules {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read verification rules ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const problems: string[] = [];
+  const numberFields = [
+    'passScore', 'uncertainScore', 'corroborationBonus', 'maxCorroborationBonus', 'allowDomainBonus',
+    'domainMismatchPenalty', 'clickbaitPenalty', 'sensationalPenalty',
+  ];
+  for (const field of numberFields) {
+    if (typeof raw?.[field] !== 'number' || !Number.isFinite(raw[field])) problems.push(`"${field}" must be a number`);
+  }
+  if (raw?.uncertainScore > raw?.passScore) problems.push('"uncertainScore" must not exceed "passScore"');
+
+  if (![1, 2, 3].every(tier => typeof raw?.tierWeights?.[tier] === 'number')) {
+    problems.push('"tierWeights" must give a number for tiers 1, 2 and 3');
+  }
+  if (typeof raw?.freshness?.maxAgeHours !== 'number' || typeof raw?.freshness?.penaltyPerDay !== 'number') {
+    problems.push('"freshness" must have numeric "maxAgeHours" and "penaltyPerDay"');
+  }
+
+  for (const field of ['allowDomains', 'denyDomains', 'redirectDomains', 'clickbaitPatterns', 'sensationalPatterns']) {
+    if (!Array.isArray(raw?.[field]) || !raw[field].every(isNonEmptyString)) {
+      problems.push(`"${field}" must be an array of strings`);
+    }
+  }
+  for (const field of ['clickbaitPatterns', 'sensationalPatterns']) {
+    for (const pattern of Array.isArray(raw?.[field]) ? raw[field] : []) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        problems.push(`${field}: "${pattern}" is not a valid regular expression`);
+      }
+    }
+  }
+
+  const sourceDomains = raw?.sourceDomains;
+  if (!sourceDomains || typeof sourceDomains !== 'object' || Array.isArray(sourceDomains) ||
+    !Object.values(sourceDomains).every(d => Array.isArray(d) && d.every(isNonEmptyString))) {
+    problems.push('"sourceDomains" must map source names to arrays of domains');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid verification rules ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return raw as VerificationRules;
+}
+
+/** Symbol -> extra names headlines use for it; tracked stocks and coins are matched by name and ticker anyway */
+function loadEntityAliases(filePath: string): Record<string, string[]> {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read entity aliases ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid entity aliases ${filePath}: must be an object mapping symbols to arrays of names`);
+  }
+
+  const problems = Object.entries<unknown>(raw)
+    .filter(([, aliases]) => !Array.isArray(aliases) || !aliases.every(isNonEmptyString))
+    .map(([symbol]) => `"${symbol}" must map to an array of non-empty names`);
+  if (problems.length > 0) {
+    throw new Error(`Invalid entity aliases ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return raw;
+}
+
+/** Reads every `<exchange>-<year>.json` in `dir` (e.g. nse-2026.json) into one calendar per exchange */
+function loadHolidayCalendars(dir: string): Record<string, HolidayCalendar> {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    throw new Error(`Could not read holiday calendars in ${dir}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const calendars: Record<string, HolidayCalendar> = {};
+  const problems: string[] = [];
+
+  for (const file of files) {
+    const name = file.match(/^([a-z]+)-(\d{4})\.json$/);
+    if (!name) {
+      problems.push(`${file}: file name must be <exchange>-<year>.json, e.g. nse-2026.json`);
+      continue;
+    }
+    const [, exchange, yearText] = name;
+    const year = Number(yearText);
+
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+    } catch (error) {
+      problems.push(`${file}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const fileProblems: string[] = [];
+    if (raw?.year !== year) fileProblems.push(`"year" must be ${year}, matching the file name`);
+    const inYear = (date: unknown) => typeof date === 'string' && isValidDateKey(date) && date.startsWith(`${year}-`);
+
+    const holidays = Array.isArray(raw?.holidays) ? raw.holidays : [];
+    if (!Array.isArray(raw?.holidays)) fileProblems.push('"holidays" must be an array');
+    holidays.forEach((h: any, i: number) => {
+      if (!inYear(h?.date) || !isNonEmptyString(h?.name)) {
+        fileProblems.push(`holidays[${i}]: needs a "date" (YYYY-MM-DD in ${year}) and a "name"`);
+      }
+    });
+
+    const sessions = raw?.specialSessions ?? [];
+    if (!Array.isArray(sessions)) fileProblems.push('"specialSessions" must be an array');
+    (Array.isArray(sessions) ? sessions : []).forEach((s: any, i: number) => {
+      const times = [s?.preOpen ?? s?.open, s?.open, s?.close];
+      if (!inYear(s?.date) || !isNonEmptyString(s?.name) || !times.every(isClockTime)) {
+        fileProblems.push(`specialSessions[${i}]: needs a "date" in ${year}, a "name", and "open"/"close" (optional "preOpen") as HH:MM`);
+      } else if (!(times[0] <= times[1] && times[1] < times[2])) {
+        fileProblems.push(`specialSessions[${i}]: times must run preOpen <= open < close`);
+      }
+    });
+
+    if (fileProblems.length > 0) {
+      problems.push(...fileProblems.map(p => `${file}: ${p}`));
+      continue;
+    }
+
+    const calendar = calendars[exchange] ?? { years: [], holidays: [], specialSessions: [] };
+    calendar.years.push(year);
+    calendar.holidays.push(...holidays.map((h: any) => ({ date: h.date, name: h.name })));
+    calendar.specialSessions.push(...sessions.map((s: any) => ({
+      date: s.date, name: s.name, preOpen: s.preOpen, open: s.open, close: s.close,
+    })));
+    calendars[exchange] = calendar;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid holiday calendars in ${dir}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return calendars;
+}
+
+function isClockTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+function isValidDateKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+const FEED_SOURCE_TYPES = ['rss', 'google-news', 'newsapi', 'json'];
+const DEFAULT_SOURCE_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_AGE_HOURS = 72;
+
+const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  recency: 3,
+  recencyHalfLifeHours: 6,
+  undatedRecency: 0.25,
+  source: 3,
+  corroboration: 2,
+  maxCorroboration: 3,
+  keyword: 1,
+  watchlist: 2,
+  confidence: 2,
+};
+
+function loadFeedsConfig(filePath: string): FeedsConfig {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read feeds config ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const problems: string[] = [];
+  const categories: Record<string, CategoryFeedSettings> = {};
+  const sources: FeedSource[] = [];
+
+  if (!raw || typeof raw.categories !== 'object' || Array.isArray(raw.categories)) {
+    problems.push('"categories" must be an object keyed by category');
+  } else {
+    for (const [key, value] of Object.entries<any>(raw.categories)) {
+      if (!isPositiveInt(value?.maxItems)) {
+        problems.push(`categories.${key}: "maxItems" must be a positive integer`);
+        continue;
+      }
+      if (value.weekendMaxItems !== undefined && !isPositiveInt(value.weekendMaxItems)) {
+        problems.push(`categories.${key}: "weekendMaxItems" must be a positive integer`);
+        continue;
+      }
+      if (value.keywords !== undefined && !(Array.isArray(value.keywords) && value.keywords.every(isNonEmptyString))) {
+        problems.push(`categories.${key}: "keywords" must be an array of non-empty strings`);
+        continue;
+      }
+      if (value.maxAgeHours !== undefined && !isPositiveInt(value.maxAgeHours)) {
+        problems.push(`categories.${key}: "maxAgeHours" must be a positive integer`);
+        continue;
+      }
+      categories[key] = {
+        maxItems: value.maxItems,
+        weekendMaxItems: value.weekendMaxItems,
+        keywords: value.keywords ?? [],
+        maxAgeHours: value.maxAgeHours ?? DEFAULT_MAX_AGE_HOURS,
+      };
+    }
+  }
+
+  if (!Array.isArray(raw?.sources)) {
+    problems.push('"sources" must be an array');
+  } else {
+    const names = new Set<string>();
+    raw.sources.forEach((entry: any, i: number) => {
+      const label = `sources[${i}]${typeof entry?.name === 'string' ? ` (${entry.name})` : ''}`;
+      const entryProblems = validateFeedSource(entry, categories);
+      if (entry?.name && names.has(entry.name)) {
+        entryProblems.push(`duplicate name "${entry.name}"`);
+      }
+      if (entryProblems.length > 0) {
+        problems.push(...entryProblems.map(p => `${label}: ${p}`));
+        return;
+      }
+      names.add(entry.name);
+      sources.push({ timeoutMs: DEFAULT_SOURCE_TIMEOUT_MS, ...entry });
+    });
+  }
+
+  const ranking = { ...DEFAULT_RANKING_WEIGHTS };
+  if (raw?.ranking !== undefined) {
+    if (!raw.ranking || typeof raw.ranking !== 'object' || Array.isArray(raw.ranking)) {
+      problems.push('"ranking" must be an object of weights');
+    } else {
+      for (const [key, value] of Object.entries(raw.ranking)) {
+        const problem = validateRankingWeight(key, value);
+        if (problem) {
+          problems.push(`ranking.${key}: ${problem}`);
+          continue;
+        }
+        ranking[key as keyof RankingWeights] = value as number;
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid feeds config ${filePath}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return { categories, sources, ranking };
+}
+
+function validateRankingWeight(key: string, value: unknown): string | null {
+  if (!(key in DEFAULT_RANKING_WEIGHTS)) {
+    return `unknown weight (expected one of: ${Object.keys(DEFAULT_RANKING_WEIGHTS).join(', ')})`;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return 'must be a number of 0 or more';
+  if ((key === 'recencyHalfLifeHours' || key === 'maxCorroboration') && value === 0) return 'must be greater than 0';
+  if (key === 'undatedRecency' && value > 1) return 'must be between 0 and 1';
+  return null;
+}
+
+function validateFeedSource(entry: any, categories: Record<string, CategoryFeedSettings>): string[] {
+  if (!entry || typeof entry !== 'object') return ['must be an object'];
+
+  const problems: string[] = [];
+  if (!isNonEmptyString(entry.name)) problems.push('"name" is required');
+  if (!isNonEmptyString(entry.category) || !categories[entry.category]) {
+    problems.push(`"category" must be a key defined under "categories" (got ${JSON.stringify(entry.category)})`);
+  }
+  if (!FEED_SOURCE_TYPES.includes(entry.type)) {
+    problems.push(`"type" must be one of: ${FEED_SOURCE_TYPES.join(', ')}`);
+  }
+  if (!isPositiveInt(entry.maxItems)) problems.push('"maxItems" must be a positive integer');
+  if (entry.timeoutMs !== undefined && !isPositiveInt(entry.timeoutMs)) {
+    problems.push('"timeoutMs" must be a positive integer');
+  }
+  if (![1, 2, 3].includes(entry.tier as SourceTier)) problems.push('"tier" must be 1, 2 or 3');
+
+  switch (entry.type) {
+    case 'google-news':
+      if (!isNonEmptyString(entry.query)) problems.push('"query" is required for google-news sources');
+      if (!/^[A-Z]{2}$/.test(entry.edition || '')) problems.push('"edition" must be a two-letter country code');
+      break;
+    case 'json':
+      if (!isNonEmptyString(entry.itemsPath)) problems.push('"itemsPath" is required for json sources');
+      if (!isNonEmptyString(entry.fields?.title) || !isNonEmptyString(entry.fields?.url)) {
+        problems.push('"fields.title" and "fields.url" are required for json sources');
+      }
+      if (!['iso', 'epoch-seconds'].includes(entry.dateFormat)) {
+        problems.push('"dateFormat" must be "iso" or "epoch-seconds"');
+      }
+    // falls through - json sources need a URL too
+    case 'rss':
+    case 'newsapi':
+      if (!isValidUrl(entry.url)) problems.push('"url" must be a valid http(s) URL');
+      break;
+  }
+
+  return problems;
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isValidUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function resolveDefaultSchedule(): string[] {
+  const raw = process.env.BULLETIN_TIMES || '10:00,20:00';
+  const times = parseTimeList(raw);
+  if (!times) {
+    throw new Error(`Invalid BULLETIN_TIMES "${raw}": expected comma-separated HH:MM times`);
+  }
+  return times;
+}
+
+function resolveMissingVerdictPolicy(): MissingVerdictPolicy {
+  const policy = (process.env.VERIFY_MISSING_VERDICT || 'tier1').toLowerCase();
+  if (policy !== 'pass' && policy !== 'fail' && policy !== 'tier1') {
+    throw new Error(`Invalid VERIFY_MISSING_VERDICT "${policy}": expected pass, fail or tier1`);
+  }
+  return policy;
+}
+
+function resolvePositiveIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!isPositiveInt(value)) {
+    throw new Error(`Invalid ${name} "${raw}": expected a positive integer`);
+  }
+  return value;
+}
+
+/** Zone for the default schedule, bulletin headers and "today" stats; chats can pick their own with /timezone */
+function resolveTimezone(): string {
+  const timeZone = process.env.TIMEZONE || 'Asia/Kolkata';
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid TIMEZONE "${timeZone}": expected an IANA time zone, e.g. Asia/Kolkata`);
+  }
+  return timeZone;
+}
+
+function resolveAlertPollCron(): string {
+  const expression = process.env.ALERT_POLL_CRON || '*/5 * * * *';
+  if (!cron.validate(expression)) {
+    throw new Error(`Invalid ALERT_POLL_CRON "${expression}": expected a cron expression`);
+  }
+  return expression;
+}
+
+/** A digest cron from `name`, its default when unset, or null when set to 'off' */
+function resolveDigestCron(name: string, fallback: string): string | null {
+  const expression = process.env[name] || fallback;
+  if (expression.toLowerCase() === 'off') return null;
+  if (!cron.validate(expression)) {
+    throw new Error(`Invalid ${name} "${expression}": expected a cron expression or "off"`);
+  }
+  return expression;
+}
+
+function resolveDigests(): DigestConfig {
+  return {
+    weeklyCron: resolveDigestCron('WEEKLY_DIGEST_CRON', '0 18 * * 0'),
+    monthlyCron: resolveDigestCron('MONTHLY_DIGEST_CRON', '0 19 28-31 * *'),
+  };
+}
+
+const DEFAULT_BREAKING_KEYWORDS = [
+  'breaking', 'war', 'invasion', 'invades', 'invaded', 'missile', 'missiles', 'airstrike', 'airstrikes',
+  'attack', 'attacks', 'attacked', 'coup', 'assassinat*', 'earthquake', 'tsunami', 'ceasefire', 'martial law',
+  'sanctions', 'emergency', 'resigns', 'resigned', 'crash', 'crashes', 'plunge', 'plunges', 'plunged', 'halted',
+  'circuit breaker', 'rate cut', 'rate hike', 'default', 'hacked', 'exploit', 'exploited',
+];
+
+/** Breaking-news mode is off unless BREAKING_NEWS_CRON is set */
+function resolveBreakingNews(): BreakingNewsConfig | null {
+  const expression = process.env.BREAKING_NEWS_CRON;
+  if (!expression) return null;
+  if (!cron.validate(expression)) {
+    throw new Error(`Invalid BREAKING_NEWS_CRON "${expression}": expected a cron expression`);
+  }
+
+  const threshold = Number(process.env.BREAKING_NEWS_THRESHOLD || 7);
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new Error(`Invalid BREAKING_NEWS_THRESHOLD "${process.env.BREAKING_NEWS_THRESHOLD}": expected a positive number`);
+  }
+
+  const maxAgeMinutes = resolvePositiveIntEnv('BREAKING_NEWS_MAX_AGE_MINUTES', 180);
+
+  const keywords = process.env.BREAKING_NEWS_KEYWORDS
+    ? process.env.BREAKING_NEWS_KEYWORDS.split(',').map(k => k.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_BREAKING_KEYWORDS;
+
+  return { cron: expression, threshold, maxAgeMinutes, keywords };
+}
+
+/** Parses CRYPTO_COINS, e.g. 'bitcoin:BTC,ethereum:ETH,solana:SOL' (CoinGecko id : display symbol) */
+function resolveCryptoCoins(): CryptoCoin[] {
+  const raw = process.env.CRYPTO_COINS || 'bitcoin:BTC,ethereum:ETH';
+  const coins = raw.split(',').map(e => e.trim()).filter(Boolean).map(entry => {
+    const [id, symbol] = entry.split(':').map(p => p.trim());
+    if (!/^[a-z0-9-]+$/.test(id || '')) {
+      throw new Error(`Invalid CRYPTO_COINS entry "${entry}": expected coingecko-id:SYMBOL`);
+    }
+    return { id, symbol: (symbol || id).toUpperCase() };
+  });
+  if (coins.length === 0) {
+    throw new Error('CRYPTO_COINS must list at least one coin');
+  }
+  return coins;
+}
+
+const telegramChatId = requireEnv('TELEGRAM_CHAT_ID');
+
 export const config: AppConfig = {
   telegramBotToken: requireEnv('TELEGRAM_BOT_TOKEN'),
-  telegramChatId: requireEnv('TELEGRAM_CHAT_ID'),
+  telegramChatId,
+  adminChatIds: Array.from(new Set([
+    telegramChatId,
+    ...(process.env.ADMIN_CHAT_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+  ])),
   newsApiKey: requireEnv('NEWS_API_KEY'),
-  aiModel: resolveAIModel(),
+  aiModels: resolveAIModels(),
+  missingVerdictPolicy: resolveMissingVerdictPolicy(),
+  verifyBatchTokens: resolvePositiveIntEnv('VERIFY_BATCH_TOKENS', 3000),
+  verifyConcurrency: resolvePositiveIntEnv('VERIFY_CONCURRENCY', 2),
+  aiSummaries: process.env.AI_SUMMARIES === 'true',
+  cryptoCoins: resolveCryptoCoins(),
+  verificationRules: loadVerificationRules(
+    process.env.VERIFICATION_RULES_PATH || path.join(__dirname, '..', 'config', 'verification-rules.json')
+  ),
+  entityAliases: loadEntityAliases(
+    process.env.ENTITY_ALIASES_PATH || path.join(__dirname, '..', 'config', 'entity-aliases.json')
+  ),
+  holidayCalendars: loadHolidayCalendars(process.env.HOLIDAYS_DIR || path.join(__dirname, '..', 'config', 'holidays')),
+  feeds: loadFeedsConfig(process.env.FEEDS_CONFIG_PATH || path.join(__dirname, '..', 'config', 'feeds.json')),
   dbPath: path.join(__dirname, '..', 'data', 'news.db'),
-  cronScheduleMorning: '0 10 * * *',
-  cronScheduleEvening: '0 20 * * *',
-  timezone: 'Asia/Kolkata',
+  defaultSchedule: resolveDefaultSchedule(),
+  alertPollCron: resolveAlertPollCron(),
+  breakingNews: resolveBreakingNews(),
+  digests: resolveDigests(),
+  timezone: resolveTimezone(),
   maxRetries: 3,
   retryDelayMs: 2000,
 };
 
-export const TRACKED_STOCKS = [
-  { symbol: 'TCS.NS', name: 'TCS' },
-  { symbol: 'CDSL.NS', name: 'CDSL' },
-  { symbol: 'HINDUNILVR.NS', name: 'HUL' },
-  { symbol: 'GOLDBEES.NS', name: 'GOLD' },
-] as const;
+/** Seeds the persisted watchlist the first time the bot starts; manage it afterwards with /addstock and /removestock */
+export const DEFAULT_WATCHLIST: WatchlistEntry[] = [
+  { symbol: 'TCS.NS', name: 'TCS', newsQuery: 'TCS stock news' },
+  { symbol: 'CDSL.NS', name: 'CDSL', newsQuery: 'CDSL stock news' },
+  { symbol: 'HINDUNILVR.NS', name: 'HUL', newsQuery: 'HUL Hindustan Unilever stock' },
+  { symbol: 'GOLDBEES.NS', name: 'GOLD', newsQuery: 'Gold price India' },
+];
 
-export const TIER_1_SOURCES = [
+/** Cold-start tier 1 outlets; once a source has enough AI verdicts its learned reputation decides its tier */
+export const TIER_1_SOURCES = Array.from(new Set([
   'Reuters', 'BBC', 'BBC World', 'Moneycontrol', 'CoinDesk',
   'Economic Times', 'LiveMint', 'Al Jazeera',
-];
+  ...config.feeds.sources.filter(s => s.tier === 1).map(s => s.name),
+]));
@@ -1,19 +1,62 @@
 import cron from 'node-cron';
-import { config } from './config';
-import { collectCryptoNews } from './collectors/crypto';
-import { collectIndianStockNews } from './collectors/indian-stocks';
-import { collectGeopoliticalNews } from './collectors/geopolitical';
+import { config, DEFAULT_WATCHLIST } from './config';
+import { registerBuiltInCollectors, getCollectors } from './collectors/index';
+import { collectFromSources, countDropped, setReputationLookup } from './collectors/sources';
+import { AppDatabase } from './services/database';
 import { DeduplicationService } from './services/deduplication';
+import { SubscriberService } from './services/subscribers';
+import { WatchlistService } from './services/watchlist';
+import { PriceHistoryService } from './services/price-history';
+import { AlertService, AlertMonitor } from './services/alerts';
+import { SourceReputationService } from './services/source-reputation';
+import { StoryArchiveService } from './services/story-archive';
+import { buildDigest, isLastDayOfMonth } from './services/digest';
+import { createMarketQuoteProvider } from './services/quote-provider';
+import { selectBreakingNews } from './services/breaking-news';
+import { AIClient } from './services/ai-client';
 import { VerifierService } from './services/verifier';
-import { getIndianMarketStatus } from './services/market-status';
+import { SummarizerService } from './services/summarizer';
+import { RulesVerifier } from './services/rules-verifier';
 import { TelegramSender } from './telegram/sender';
-import { NewsItem, VerifiedNewsItem } from './types/index';
+import { registerSubscriberCommands } from './telegram/commands';
+import { registerAdminCommands } from './telegram/admin-commands';
+import { registerMarketCommands } from './telegram/market-commands';
+import {
+  BulletinDelivery, BulletinSection, CollectionResult, Collector, DigestPeriod, NewsItem, NewsVerifier, Subscriber,
+  VerifiedNewsItem,
+} from './types/index';
 import { log } from './utils/helpers';
-
-const dedup = new DeduplicationService(config.dbPath);
-const verifier = new VerifierService(config.aiModel);
+import { getLocalClockTime } from './utils/time';
+
+const database = new AppDatabase(config.dbPath);
+const dedup = new DeduplicationService(database);
+const subscribers = new SubscriberService(database);
+const watchlist = new WatchlistService(database);
+const priceHistory = new PriceHistoryService(database);
+const alerts = new AlertService(database);
+const reputation = new SourceReputationService(database);
+const archive = new StoryArchiveService(database);
+const quotes = createMarketQuoteProvider(config.cryptoCoins);
+const aiProviders = config.aiModels.map(model => new AIClient(model));
+const rulesVerifier = new RulesVerifier(config.verificationRules);
+const verifier: NewsVerifier = aiProviders.length > 0
+  ? new VerifierService(aiProviders, {
+    missingVerdictPolicy: config.missingVerdictPolicy,
+    batchTokenBudget: config.verifyBatchTokens,
+    concurrency: config.verifyConcurrency,
+    fallback: rulesVerifier,
+  })
+  : rulesVerifier;
+const summarizer = aiProviders.length > 0 ? new SummarizerService(aiProviders[0]) : null;
 const sender = new TelegramSender(config.telegramBotToken, config.telegramChatId);
 const bot = sender.getBot();
+const alertMonitor = new AlertMonitor(alerts, quotes, (chatId, html) => sender.sendHtml(html, chatId));
+
+registerBuiltInCollectors({ watchlist });
+registerSubscriberCommands(bot, subscribers, watchlist);
+registerAdminCommands(bot, { watchlist, reputation });
+setReputationLookup(source => reputation.get(source));
+registerMarketCommands(bot, { watchlist, priceHistory, alerts, quotes });
 
 let lastSuccessfulSend: Date | null = null;
 const startTime = new Date();
@@ -35,95 +78,138 @@ bot.command('health', async (ctx) => {
       `📅 Started: ${startTime.toISOString()}`,
       `📨 Last send: ${lastSend}`,
       `🗄️ DB entries: ${stats.total} total, ${stats.today} today`,
-      `⏰ Schedule: ${config.cronScheduleMorning} & ${config.cronScheduleEvening} (${config.timezone})`,
-      `🤖 AI: ${config.aiModel.provider} (${config.aiModel.model})`,
+      `👥 Subscribers: ${subscribers.countActive()}`,
+      `📈 Tracked stocks: ${watchlist.getAll().length}`,
+      `📰 Sources with verdicts: ${reputation.count()}`,
+      `🔔 Price alerts: ${alerts.getAll().length} (polling ${config.alertPollCron})`,
+      `⏰ Default schedule: ${config.defaultSchedule.join(', ')} (${config.timezone})`,
+      `🤖 Verification: ${describeAIProviders()}${summarizer && config.aiSummaries ? ', summaries on' : ''}`,
       `🟢 Node: ${process.version}`,
     ].join('\n'),
   );
 });
 
-async function runNewsPipeline(): Promise<void> {
+function describeAIProviders(): string {
+  return [...config.aiModels.map(m => `${m.provider} (${m.model})`), 'offline rules'].join(' → ');
+}
+
+async function runNewsPipeline(recipients: Subscriber[]): Promise<void> {
   const pipelineStart = Date.now();
-  log('info', '========== Starting news pipeline ==========');
+  log('info', `========== Starting news pipeline for ${recipients.length} subscribers ==========`);
 
   try {
-    // Step 1: Collect from all sources in parallel
-    log('info', 'Collecting news from all sources...');
-    const [cryptoResult, stockResult, geopoliticalResult] = await Promise.allSettled([
-      collectCryptoNews(),
-      collectIndianStockNews(),
-      collectGeopoliticalNews(),
-    ]);
-
-    const crypto = cryptoResult.status === 'fulfilled'
-      ? cryptoResult.value
-      : { price: { symbol: 'BTC', priceUsd: 0 }, news: [] as NewsItem[], errors: ['Crypto collector crashed: ' + cryptoResult.reason] };
-
-    const stocks = stockResult.status === 'fulfilled'
-      ? stockResult.value
-      : { quotes: [], news: [] as NewsItem[], isWeekend: false, errors: ['Stock collector crashed: ' + stockResult.reason] };
-
-    const geopolitical = geopoliticalResult.status === 'fulfilled'
-      ? geopoliticalResult.value
-      : { news: [] as NewsItem[], errors: ['Geopolitical collector crashed: ' + geopoliticalResult.reason] };
+    // Step 1: Collect from all registered collectors in parallel
+    const collectors = getCollectors();
+    log('info', `Collecting news from ${collectors.length} collectors...`);
+    const settled = await Promise.allSettled(collectors.map(c => c.collect()));
+
+    const runs: Array<{ collector: Collector; result: CollectionResult }> = collectors.map((collector, i) => {
+      const outcome = settled[i];
+      if (outcome.status === 'fulfilled') {
+        return { collector, result: outcome.value };
+      }
+      const result = collector.emptyResult();
+      result.errors.push(`${collector.title} collector crashed: ${outcome.reason}`);
+      return { collector, result };
+    });
 
-    const allErrors = [...crypto.errors, ...stocks.errors, ...geopolitical.errors];
+    const allErrors = runs.flatMap(r => r.result.errors);
 
     log('info', 'Collection complete', {
-      cryptoNews: crypto.news.length,
-      stockNews: stocks.news.length,
-      geoNews: geopolitical.news.length,
-      stockQuotes: stocks.quotes.length,
+      ...Object.fromEntries(runs.map(r => [r.collector.category, r.result.news.length])),
+      dropped: Object.fromEntries(runs.map(r => [r.collector.category, r.result.dropped ? countDropped(r.result.dropped) : 0])),
       errors: allErrors.length,
     });
 
-    // Step 2: Deduplication
+    // Step 2: Deduplication, against only the chats that receive each category, since
+    // other chats never get its items marked delivered
     log('info', 'Running deduplication...');
-    const newCryptoNews = crypto.news.length > 0 ? dedup.filterNew(crypto.news) : [];
-    const newStockNews = stocks.news.length > 0 ? dedup.filterNew(stocks.news) : [];
-    const newGeoNews = geopolitical.news.length > 0 ? dedup.filterNew(geopolitical.news) : [];
+    const newNews = runs.map(r => {
+      const chatIds = chatsReceiving(r.collector.category, recipients);
+      return r.result.news.length > 0 && chatIds.length > 0 ? dedup.filterNew(r.result.news, chatIds) : [];
+    });
 
-    // Step 3: Verify all news in a single Claude call
-    const allNewNews: NewsItem[] = [...newCryptoNews, ...newStockNews, ...newGeoNews];
+    // Step 3: Verify all news in token-budgeted batches
+    const allNewNews: NewsItem[] = newNews.flat();
     let verifiedItems: VerifiedNewsItem[] = [];
 
     if (allNewNews.length > 0) {
-      log('info', `Verifying ${allNewNews.length} news items with ${config.aiModel.provider} (${config.aiModel.model})...`);
-      verifiedItems = await verifier.verifyNews(allNewNews);
+      log('info', `Verifying ${allNewNews.length} news items with ${describeAIProviders()}...`);
+      const report = await verifier.verifyNews(allNewNews);
+      verifiedItems = report.items;
+      reputation.record(verifiedItems);
+      allErrors.push(...report.failedBatches.map(f =>
+        `Verification batch ${f.batch} (${f.size} items) failed, offline rules used: ${f.error}`
+      ));
     } else {
       log('info', 'No new news items to verify');
     }
 
     // Step 4: Split verified items back by category
-    const verifiedCrypto = verifiedItems.filter(i => i.category === 'crypto');
-    const verifiedStocks = verifiedItems.filter(i => i.category === 'indian-stocks');
-    const verifiedGeo = verifiedItems.filter(i => i.category === 'geopolitical');
-
-    log('info', 'Verification complete', {
-      cryptoVerified: verifiedCrypto.filter(i => i.isVerified).length,
-      stocksVerified: verifiedStocks.filter(i => i.isVerified).length,
-      geoVerified: verifiedGeo.filter(i => i.isVerified).length,
-    });
+    const sections: BulletinSection[] = runs.map(({ collector, result }) => ({
+      collector,
+      result,
+      news: verifiedItems.filter(i => i.category === collector.category),
+    }));
+
+    log('info', 'Verification complete', Object.fromEntries(
+      sections.map(s => [s.collector.category, s.news.filter(i => i.isVerified).length])
+    ));
+
+    if (summarizer && config.aiSummaries) {
+      log('info', 'Summarizing sections...');
+      const summaries = await summarizer.summarizeSections(sections);
+      sections.forEach(s => { s.summary = summaries.get(s.collector.category); });
+    }
 
-    // Step 5: Get market status
-    const marketStatus = getIndianMarketStatus();
+    // Step 5: Tailor the bulletin to each subscriber's categories, watchlist and history.
+    // Price changes are measured from each subscriber's own previous bulletin.
+    const pricePoints = runs.flatMap(r => r.collector.pricePoints?.(r.result) ?? []);
+    const deliveries: BulletinDelivery[] = recipients.map(subscriber => {
+      const { categories, watchlist } = subscriber.preferences;
+      return {
+        chatId: subscriber.chatId,
+        sections: sections
+          .filter(s => !categories || categories.includes(s.collector.category))
+          .map(s => ({ ...s, news: dedup.filterUndelivered(subscriber.chatId, s.news) })),
+        context: {
+          watchlist,
+          comparisons: priceHistory.compare(pricePoints, subscriber.lastBulletinAt),
+          timeZone: subscriber.preferences.timezone ?? config.timezone,
+        },
+      };
+    }).filter(d => d.sections.length > 0);
+
+    priceHistory.record(pricePoints);
 
     // Step 6: Send via Telegram
-    log('info', 'Sending Telegram message...');
-    await sender.sendNewsBulletin(
-      crypto.price,
-      verifiedCrypto,
-      stocks.quotes,
-      verifiedStocks,
-      verifiedGeo,
-      marketStatus,
-      allErrors,
-    );
+    log('info', `Sending Telegram bulletin to ${deliveries.length} subscribers...`);
+    const broadcast = await sender.sendNewsBulletin(deliveries, allErrors);
+
+    for (const delivery of deliveries) {
+      if (broadcast.delivered.includes(delivery.chatId)) {
+        // Only what the chat was shown; items cut by ranking or limits stay eligible next time
+        dedup.markDelivered(delivery.chatId, broadcast.shown.get(delivery.chatId) ?? []);
+        subscribers.markBulletinSent(delivery.chatId);
+      }
+    }
+
+    // Digests recap what chats were actually sent
+    archive.record(Array.from(new Set(Array.from(broadcast.shown.values()).flat())));
 
-    lastSuccessfulSend = new Date();
+    for (const chatId of broadcast.unreachable) {
+      subscribers.unsubscribe(chatId);
+    }
+
+    if (broadcast.delivered.length > 0) {
+      lastSuccessfulSend = new Date();
+    }
 
     // Step 7: Periodic cleanup
     dedup.cleanup(7);
+    priceHistory.cleanup(400);
+    reputation.cleanup();
+    archive.cleanup();
 
     const duration = ((Date.now() - pipelineStart) / 1000).toFixed(1);
     log('info', `========== Pipeline completed in ${duration}s ==========`);
@@ -139,44 +225,207 @@ async function runNewsPipeline(): Promise<void> {
   }
 }
 
+// Stories the verifier rejected are not re-verified on every pass. Entries are kept only
+// as long as the feeds keep returning the story, i.e. the longest category age cut-off.
+const rejectedBreakingUrls = new Map<string, number>(); // URL -> rejection time (ms)
+const REJECTION_MEMORY_MS = Math.max(0, ...Object.values(config.feeds.categories).map(c => c.maxAgeHours)) * 60 * 60 * 1000;
+
+function pruneRejectedBreakingUrls(now: number): void {
+  for (const [url, rejectedAt] of rejectedBreakingUrls) {
+    if (now - rejectedAt > REJECTION_MEMORY_MS) rejectedBreakingUrls.delete(url);
+  }
+}
+
+/**
+ * Lightweight pass between bulletins: feeds only (no quotes, no rate-limited NewsAPI),
+ * scored for importance. Stories above the threshold are verified and pushed at once,
+ * and marked delivered along with other outlets' copies so the next bulletin skips them.
+ */
+async function runBreakingNewsPass(recipients: Subscriber[]): Promise<void> {
+  const settings = config.breakingNews;
+  if (!settings || recipients.length === 0) return;
+
+  try {
+    pruneRejectedBreakingUrls(Date.now());
+    const collectors = getCollectors();
+    const settled = await Promise.allSettled(
+      collectors.map(c => collectFromSources(c.category, [], source => source.type !== 'newsapi'))
+    );
+    const items = settled.flatMap(r => r.status === 'fulfilled' ? r.value.news : []);
+
+    const candidates = selectBreakingNews(items, settings).filter(c => !rejectedBreakingUrls.has(c.item.url));
+    const fresh = collectors.flatMap(({ category }) => {
+      const inCategory = candidates.map(c => c.item).filter(i => i.category === category);
+      const chatIds = chatsReceiving(category, recipients);
+      return inCategory.length > 0 && chatIds.length > 0 ? dedup.filterNew(inCategory, chatIds) : [];
+    });
+    log('info', `Breaking news pass: ${items.length} items scanned, ${candidates.length} above threshold, ${fresh.length} new`);
+    if (fresh.length === 0) return;
+
+    const { items: checked } = await verifier.verifyNews(fresh);
+    reputation.record(checked);
+    checked.filter(i => !i.isVerified).forEach(i => rejectedBreakingUrls.set(i.url, Date.now()));
+    const verified = checked.filter(i => i.isVerified);
+    const deliveries = recipients.map(subscriber => {
+      const { categories, timezone } = subscriber.preferences;
+      return {
+        chatId: subscriber.chatId,
+        timeZone: timezone ?? config.timezone,
+        items: dedup.filterUndelivered(
+          subscriber.chatId,
+          verified.filter(i => !categories || categories.includes(i.category)),
+        ),
+      };
+    }).filter(d => d.items.length > 0);
+    if (deliveries.length === 0) return;
+
+    const broadcast = await sender.sendBreakingNews(deliveries);
+
+    const sent = deliveries.filter(d => broadcast.delivered.includes(d.chatId));
+    for (const delivery of sent) {
+      dedup.markDelivered(delivery.chatId, delivery.items);
+    }
+    archive.record(Array.from(new Set(sent.flatMap(d => d.items))));
+
+    for (const chatId of broadcast.unreachable) {
+      subscribers.unsubscribe(chatId);
+    }
+  } catch (error) {
+    log('error', 'Breaking news pass failed', { error: String(error) });
+  }
+}
+
+/** Sends each chat the digest for its categories, with prices limited to its watched stocks */
+async function runDigest(period: DigestPeriod, recipients: Subscriber[]): Promise<void> {
+  log('info', `========== Building ${period} digest for ${recipients.length} subscribers ==========`);
+  try {
+    const digest = buildDigest(period, { archive, priceHistory, watchlist });
+    const deliveries = recipients.map(subscriber => {
+      const { categories, watchlist: watched } = subscriber.preferences;
+      return {
+        chatId: subscriber.chatId,
+        digest: {
+          ...digest,
+          sections: digest.sections.filter(s => !categories || categories.includes(s.category)),
+          performance: digest.performance.filter(p => p.kind !== 'stock' || watched.length === 0 || watched.includes(p.symbol)),
+        },
+      };
+    });
+
+    const broadcast = await sender.sendDigest(deliveries);
+    for (const chatId of broadcast.unreachable) {
+      subscribers.unsubscribe(chatId);
+    }
+  } catch (error) {
+    log('error', `${period} digest failed`, { error: String(error) });
+  }
+}
+
+function chatsReceiving(category: string, recipients: Subscriber[]): string[] {
+  return recipients
+    .filter(r => !r.preferences.categories || r.preferences.categories.includes(category))
+    .map(r => r.chatId);
+}
+
+function isBulletinDue(subscriber: Subscriber, now: Date): boolean {
+  const { schedule, timezone } = subscriber.preferences;
+  const localTime = getLocalClockTime(timezone ?? config.timezone, now);
+  return (schedule ?? config.defaultSchedule).includes(localTime);
+}
+
+// Runs are queued so a slow pipeline never overlaps the next scheduled one or a breaking-news pass
+let pipelineQueue: Promise<void> = Promise.resolve();
+
+function enqueuePipeline(run: () => Promise<void>): void {
+  pipelineQueue = pipelineQueue
+    .then(run)
+    .catch(err => log('error', 'Scheduled pipeline error', { error: String(err) }));
+}
+
 async function main(): Promise<void> {
   log('info', 'news-pulse-bot starting...');
+  if (config.aiSummaries && !summarizer) {
+    log('warn', 'AI_SUMMARIES is ignored: no AI provider is configured (AI_PROVIDER=rules)');
+  }
 
-  // Initialize dedup database
-  await dedup.initialize();
-
-  const isTestSend = process.argv.includes('--test-send');
+  // Initialize database tables
+  await database.initialize();
+  dedup.initialize(config.telegramChatId);
+  subscribers.initialize();
+  subscribers.seed(config.telegramChatId);
+  watchlist.initialize(DEFAULT_WATCHLIST);
+  priceHistory.initialize();
+  alerts.initialize();
+  reputation.initialize();
+  archive.initialize();
+
+  // --test-send sends a bulletin now; --test-send weekly|monthly sends that digest instead
+  const testSendIndex = process.argv.indexOf('--test-send');
+
+  if (testSendIndex !== -1) {
+    const target = process.argv[testSendIndex + 1];
+    const digestPeriod: DigestPeriod | null = target === 'weekly' || target === 'monthly' ? target : null;
+    if (target && !target.startsWith('--') && !digestPeriod) {
+      log('error', `Unknown --test-send target "${target}": expected weekly or monthly`);
+      database.close();
+      process.exit(1);
+    }
 
-  if (isTestSend) {
-    log('info', '>>> Running in --test-send mode (immediate execution) <<<');
-    await runNewsPipeline();
-    dedup.close();
+    log('info', `>>> Running in --test-send mode (immediate ${digestPeriod ? `${digestPeriod} digest` : 'bulletin'}) <<<`);
+    if (digestPeriod) {
+      await runDigest(digestPeriod, subscribers.getActive());
+    } else {
+      await runNewsPipeline(subscribers.getActive());
+    }
+    database.close();
     process.exit(0);
   }
 
   // Send startup notification
   try {
-    await sender.sendStartupMessage();
+    await sender.sendStartupMessage(`${config.defaultSchedule.join(', ')} (${config.timezone})`);
   } catch (error) {
     log('error', 'Failed to send startup message', { error: String(error) });
   }
 
-  // Schedule cron jobs
-  cron.schedule(config.cronScheduleMorning, () => {
-    runNewsPipeline().catch(err =>
-      log('error', 'Morning pipeline error', { error: String(err) })
-    );
-  }, { timezone: config.timezone });
+  // Check every minute which subscribers are due for a bulletin in their own time zone
+  cron.schedule('* * * * *', () => {
+    const now = new Date();
+    const due = subscribers.getActive().filter(subscriber => isBulletinDue(subscriber, now));
+    if (due.length > 0) {
+      enqueuePipeline(() => runNewsPipeline(due));
+    }
+  });
 
-  cron.schedule(config.cronScheduleEvening, () => {
-    runNewsPipeline().catch(err =>
-      log('error', 'Evening pipeline error', { error: String(err) })
-    );
-  }, { timezone: config.timezone });
+  if (config.breakingNews) {
+    cron.schedule(config.breakingNews.cron, () => {
+      enqueuePipeline(() => runBreakingNewsPass(subscribers.getActive()));
+    });
+    log('info', `Breaking news mode on: ${config.breakingNews.cron}, threshold ${config.breakingNews.threshold}`);
+  }
+
+  // Digests run in config.timezone, queued behind any bulletin in progress
+  const { weeklyCron, monthlyCron } = config.digests;
+  if (weeklyCron) {
+    cron.schedule(weeklyCron, () => {
+      enqueuePipeline(() => runDigest('weekly', subscribers.getActive()));
+    }, { timezone: config.timezone });
+  }
+  if (monthlyCron) {
+    cron.schedule(monthlyCron, () => {
+      if (isLastDayOfMonth()) enqueuePipeline(() => runDigest('monthly', subscribers.getActive()));
+    }, { timezone: config.timezone });
+  }
+  log('info', `Digests: weekly ${weeklyCron ?? 'off'}, monthly ${monthlyCron ? `${monthlyCron} (last day of month only)` : 'off'}`);
+
+  // Intraday price alerts poll on their own, independent of bulletin times
+  cron.schedule(config.alertPollCron, () => {
+    alertMonitor.poll().catch(err => log('error', 'Alert poll failed', { error: String(err) }));
+  });
 
-  log('info', `Cron scheduled: ${config.cronScheduleMorning} and ${config.cronScheduleEvening} (${config.timezone})`);
+  log('info', `Scheduler started. Default schedule: ${config.defaultSchedule.join(', ')} (${config.timezone})`);
 
-  // Start bot polling for /health command
+  // Start bot polling for subscriber and /health commands
   bot.start();
   log('info', 'Bot polling started. Waiting for scheduled runs...');
 
@@ -184,7 +433,7 @@ async function main(): Promise<void> {
   const shutdown = () => {
     log('info', 'Shutting down...');
     bot.stop();
-    dedup.close();
+    database.close();
     process.exit(0);
   };
 
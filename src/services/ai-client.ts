@@ -0,0 +1,204 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { AIModelConfig } from '../types/index';
+import { log } from '../utils/helpers';
+
+/** A JSON Schema (top-level object) the reply must follow; `name` doubles as the Anthropic tool name */
+export interface StructuredOutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+/** Thin wrapper over the configured provider's SDK, shared by every AI stage */
+export class AIClient {
+  readonly model: AIModelConfig;
+  private anthropicClient?: Anthropic;
+  private openaiClient?: OpenAI;
+
+  constructor(model: AIModelConfig) {
+    this.model = model;
+
+    switch (model.provider) {
+      case 'claude':
+        this.anthropicClient = new Anthropic({ apiKey: model.apiKey });
+        break;
+      case 'openai':
+        this.openaiClient = new OpenAI({ apiKey: model.apiKey });
+        break;
+      case 'grok':
+        this.openaiClient = new OpenAI({
+          apiKey: model.apiKey,
+          baseURL: model.baseUrl,
+        });
+        break;
+      case 'openai-compatible':
+        this.openaiClient = new OpenAI({
+          // The SDK insists on a key; local servers usually ignore it
+          apiKey: model.apiKey || 'not-needed',
+          baseURL: model.baseUrl,
+          timeout: model.timeoutMs,
+          defaultHeaders: model.headers,
+        });
+        break;
+    }
+
+    log('info', `AI client initialized with provider: ${model.provider}, model: ${model.model}`);
+  }
+
+  /** Sends one system + user prompt and returns the text of the reply */
+  async complete(systemPrompt: string, userMessage: string, maxTokens: number = 2048): Promise<string> {
+    switch (this.model.provider) {
+      case 'claude':
+        return this.callClaude(systemPrompt, userMessage, maxTokens);
+      case 'openai':
+      case 'grok':
+      case 'openai-compatible':
+        return this.callOpenAICompatible(systemPrompt, userMessage, maxTokens);
+      default:
+        throw new Error(`Unknown AI provider: ${this.model.provider}`);
+    }
+  }
+
+  /**
+   * Asks for a reply shaped by `schema` using the provider's native structured output:
+   * a forced tool call for Anthropic, a strict `json_schema` response format for OpenAI-compatible APIs.
+   * Returns the parsed but unvalidated JSON; callers must validate it.
+   */
+  async completeStructured(
+    systemPrompt: string,
+    userMessage: string,
+    schema: StructuredOutputSchema,
+    maxTokens: number = 2048
+  ): Promise<unknown> {
+    switch (this.model.provider) {
+      case 'claude':
+        return this.callClaudeTool(systemPrompt, userMessage, schema, maxTokens);
+      case 'openai':
+      case 'grok':
+        return this.callOpenAIJsonSchema(systemPrompt, userMessage, schema, maxTokens);
+      case 'openai-compatible':
+        return this.callOpenAIJsonSchema(systemPrompt, userMessage, schema, maxTokens)
+          .catch(error => this.fallBackToPromptedJson(error, systemPrompt, userMessage, schema, maxTokens));
+      default:
+        throw new Error(`Unknown AI provider: ${this.model.provider}`);
+    }
+  }
+
+  private async callClaude(systemPrompt: string, userMessage: string, maxTokens: number): Promise<string> {
+    if (!this.anthropicClient) throw new Error('Anthropic client not initialized');
+
+    const response = await this.anthropicClient.messages.create({
+      model: this.model.model,
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userMessage }],
+    });
+
+    return response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+  }
+
+  private async callOpenAICompatible(systemPrompt: string, userMessage: string, maxTokens: number): Promise<string> {
+    if (!this.openaiClient) throw new Error('OpenAI client not initialized');
+
+    const response = await this.openaiClient.chat.completions.create({
+      model: this.model.model,
+      max_tokens: maxTokens,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage },
+      ],
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  private async callClaudeTool(
+    systemPrompt: string,
+    userMessage: string,
+    schema: StructuredOutputSchema,
+    maxTokens: number
+  ): Promise<unknown> {
+    if (!this.anthropicClient) throw new Error('Anthropic client not initialized');
+
+    const response = await this.anthropicClient.messages.create({
+      model: this.model.model,
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      tools: [{
+        name: schema.name,
+        description: schema.description,
+        input_schema: { type: 'object', ...schema.schema },
+      }],
+      tool_choice: { type: 'tool', name: schema.name },
+      messages: [{ role: 'user', content: userMessage }],
+    });
+
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === schema.name
+    );
+    if (!toolUse) {
+      throw new Error(`Claude did not call the ${schema.name} tool (stop reason: ${response.stop_reason})`);
+    }
+    return toolUse.input;
+  }
+
+  private async callOpenAIJsonSchema(
+    systemPrompt: string,
+    userMessage: string,
+    schema: StructuredOutputSchema,
+    maxTokens: number
+  ): Promise<unknown> {
+    if (!this.openaiClient) throw new Error('OpenAI client not initialized');
+
+    const response = await this.openaiClient.chat.completions.create({
+      model: this.model.model,
+      max_tokens: maxTokens,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: true },
+      },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage },
+      ],
+    });
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`Model refused: ${message.refusal}`);
+    }
+    return JSON.parse(message?.content || '');
+  }
+
+  /**
+   * Self-hosted servers vary in json_schema support. When one rejects the request
+   * itself (4xx), ask again with the schema spelled out in the prompt instead.
+   */
+  private async fallBackToPromptedJson(
+    error: unknown,
+    systemPrompt: string,
+    userMessage: string,
+    schema: StructuredOutputSchema,
+    maxTokens: number
+  ): Promise<unknown> {
+    if (!(error instanceof OpenAI.APIError) || !error.status || error.status < 400 || error.status >= 500) {
+      throw error;
+    }
+
+    log('warn', `${this.model.baseUrl} rejected json_schema output (${error.status}), retrying with a prompted schema`);
+    const text = await this.callOpenAICompatible(
+      `${systemPrompt}\n\nReply with ONLY a JSON object, no other text, matching this JSON Schema:\n${JSON.stringify(schema.schema)}`,
+      userMessage,
+      maxTokens
+    );
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON object in response');
+    }
+    return JSON.parse(jsonMatch[0]);
+  }
+}
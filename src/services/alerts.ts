@@ -0,0 +1,279 @@
+import { AlertCondition, MarketId, PriceAlert, PriceKind, PricePoint, QuoteProvider } from '../types/index';
+import { AppDatabase } from './database';
+import { getMarketForSymbol, getMarketStatus } from './market-status';
+import { escapeHtml, formatPrice, formatSignedPercent, log } from '../utils/helpers';
+
+interface AlertRow {
+  id: number;
+  chat_id: string;
+  symbol: string;
+  kind: PriceKind;
+  condition: AlertCondition;
+  threshold: number;
+  repeat: number;
+  armed: number;
+  reference_price: number | null;
+  created_at: string;
+  last_triggered_at: string | null;
+}
+
+/** How far a repeating above/below alert must move back past its threshold before it can fire again */
+export const REARM_HYSTERESIS_PERCENT = 1;
+
+export type NewPriceAlert = Pick<PriceAlert, 'chatId' | 'symbol' | 'kind' | 'condition' | 'threshold' | 'repeat' | 'referencePrice'>;
+
+/** Per-chat price alert rules */
+export class AlertService {
+  private db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  initialize(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS price_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        condition TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        repeat INTEGER NOT NULL DEFAULT 0,
+        armed INTEGER NOT NULL DEFAULT 1,
+        reference_price REAL,
+        created_at TEXT NOT NULL,
+        last_triggered_at TEXT
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_alerts_chat ON price_alerts(chat_id)
+    `);
+
+    this.db.save();
+    log('info', `Alerts table initialized with ${this.getAll().length} alerts`);
+  }
+
+  /** Returns the new alert's id */
+  add(alert: NewPriceAlert): number {
+    this.db.run(
+      `INSERT INTO price_alerts (chat_id, symbol, kind, condition, threshold, repeat, armed, reference_price, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`,
+      [alert.chatId, alert.symbol, alert.kind, alert.condition, alert.threshold, alert.repeat ? 1 : 0,
+        alert.referencePrice, new Date().toISOString()]
+    );
+    const id = Number(this.db.queryValue('SELECT last_insert_rowid()'));
+    this.db.save();
+    log('info', `Alerts: chat ${alert.chatId} added #${id}`, { symbol: alert.symbol, condition: alert.condition, threshold: alert.threshold });
+    return id;
+  }
+
+  getAll(): PriceAlert[] {
+    return this.db.query<AlertRow>('SELECT * FROM price_alerts ORDER BY id').map(toAlert);
+  }
+
+  getForChat(chatId: string): PriceAlert[] {
+    return this.db.query<AlertRow>('SELECT * FROM price_alerts WHERE chat_id = ? ORDER BY id', [chatId]).map(toAlert);
+  }
+
+  countForChat(chatId: string): number {
+    return Number(this.db.queryValue('SELECT COUNT(*) FROM price_alerts WHERE chat_id = ?', [chatId]) ?? 0);
+  }
+
+  /** Records the outcome of a poll; `triggeredAt` is set when the alert fired */
+  updateState(id: number, state: { armed: boolean; referencePrice: number | null; triggeredAt?: Date }): void {
+    this.db.run(
+      `UPDATE price_alerts SET armed = ?, reference_price = ?, last_triggered_at = COALESCE(?, last_triggered_at)
+       WHERE id = ?`,
+      [state.armed ? 1 : 0, state.referencePrice, state.triggeredAt?.toISOString() ?? null, id]
+    );
+    this.db.save();
+  }
+
+  /** Removes one alert, scoped to the chat when given; returns false if nothing matched */
+  remove(id: number, chatId?: string): boolean {
+    const changes = chatId
+      ? this.db.run('DELETE FROM price_alerts WHERE id = ? AND chat_id = ?', [id, chatId])
+      : this.db.run('DELETE FROM price_alerts WHERE id = ?', [id]);
+    this.db.save();
+    return changes > 0;
+  }
+
+  removeAllForChat(chatId: string): number {
+    const changes = this.db.run('DELETE FROM price_alerts WHERE chat_id = ?', [chatId]);
+    this.db.save();
+    return changes;
+  }
+}
+
+function toAlert(row: AlertRow): PriceAlert {
+  return {
+    id: Number(row.id),
+    chatId: row.chat_id,
+    symbol: row.symbol,
+    kind: row.kind,
+    condition: row.condition,
+    threshold: Number(row.threshold),
+    repeat: row.repeat === 1,
+    armed: row.armed === 1,
+    referencePrice: row.reference_price === null ? null : Number(row.reference_price),
+    createdAt: new Date(row.created_at),
+    lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at) : undefined,
+  };
+}
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  armed: boolean;
+  referencePrice: number | null;
+}
+
+/**
+ * Decides whether an alert fires at `price` and what state it moves to.
+ * Above/below alerts disarm after firing and re-arm once the price has moved
+ * `hysteresisPercent` back past the threshold; change alerts fire on a move of
+ * `threshold` percent from their reference price, which then resets to `price`.
+ */
+export function evaluateAlert(
+  alert: Pick<PriceAlert, 'condition' | 'threshold' | 'armed' | 'referencePrice'>,
+  price: number,
+  hysteresisPercent: number = REARM_HYSTERESIS_PERCENT,
+): AlertEvaluation {
+  const { condition, threshold, armed, referencePrice } = alert;
+  const margin = hysteresisPercent / 100;
+
+  switch (condition) {
+    case 'above':
+      if (armed) return { triggered: price >= threshold, armed: price < threshold, referencePrice };
+      return { triggered: false, armed: price <= threshold * (1 - margin), referencePrice };
+
+    case 'below':
+      if (armed) return { triggered: price <= threshold, armed: price > threshold, referencePrice };
+      return { triggered: false, armed: price >= threshold * (1 + margin), referencePrice };
+
+    case 'change': {
+      if (!referencePrice || referencePrice <= 0) return { triggered: false, armed: true, referencePrice: price };
+      const movedPercent = Math.abs((price - referencePrice) / referencePrice) * 100;
+      return movedPercent >= threshold
+        ? { triggered: true, armed: true, referencePrice: price }
+        : { triggered: false, armed: true, referencePrice };
+    }
+  }
+}
+
+/** Stocks on an exchange with a known calendar only trade while it is open; crypto and other listings always do */
+export function getAlertMarket(alert: Pick<PriceAlert, 'symbol' | 'kind'>): MarketId | null {
+  return alert.kind === 'stock' ? getMarketForSymbol(alert.symbol) : null;
+}
+
+export function describeAlertRule(alert: Pick<PriceAlert, 'condition' | 'threshold' | 'repeat'>, currency?: string): string {
+  const rule = alert.condition === 'change'
+    ? `moves ${alert.threshold}%`
+    : `${alert.condition} ${currency ? formatPrice(alert.threshold, currency) : alert.threshold}`;
+  return alert.repeat ? `${rule} (repeating)` : rule;
+}
+
+export type AlertNotifier = (chatId: string, html: string) => Promise<void>;
+
+/**
+ * Polls live prices for every alert and notifies the owning chats.
+ * One-shot alerts are deleted once delivered; repeating ones stay and re-arm.
+ */
+export class AlertMonitor {
+  private alerts: AlertService;
+  private quotes: QuoteProvider;
+  private notify: AlertNotifier;
+  private isMarketOpen: (market: MarketId) => boolean;
+  private polling = false;
+
+  constructor(
+    alerts: AlertService,
+    quotes: QuoteProvider,
+    notify: AlertNotifier,
+    isMarketOpen: (market: MarketId) => boolean = market => getMarketStatus(market).isOpen,
+  ) {
+    this.alerts = alerts;
+    this.quotes = quotes;
+    this.notify = notify;
+    this.isMarketOpen = isMarketOpen;
+  }
+
+  /** Returns the number of alerts that fired; overlapping calls are skipped */
+  async poll(now: Date = new Date()): Promise<number> {
+    if (this.polling) {
+      log('warn', 'Alert poll skipped: previous poll still running');
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      return await this.checkAlerts(now);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async checkAlerts(now: Date): Promise<number> {
+    const openMarkets = new Map<MarketId, boolean>();
+    const isTrading = (alert: PriceAlert) => {
+      const market = getAlertMarket(alert);
+      if (!market) return true;
+      if (!openMarkets.has(market)) openMarkets.set(market, this.isMarketOpen(market));
+      return openMarkets.get(market)!;
+    };
+    const active = this.alerts.getAll().filter(isTrading);
+    if (active.length === 0) return 0;
+
+    const instruments = Array.from(
+      new Map(active.map(a => [a.symbol, { symbol: a.symbol, kind: a.kind }])).values()
+    );
+    const prices = new Map<string, PricePoint>(
+      (await this.quotes.getPrices(instruments)).map(p => [p.symbol, p])
+    );
+
+    let fired = 0;
+    for (const alert of active) {
+      const point = prices.get(alert.symbol);
+      if (!point || point.price <= 0) continue;
+
+      const result = evaluateAlert(alert, point.price);
+      if (!result.triggered) {
+        if (result.armed !== alert.armed || result.referencePrice !== alert.referencePrice) {
+          this.alerts.updateState(alert.id, result);
+        }
+        continue;
+      }
+
+      try {
+        await this.notify(alert.chatId, formatAlertMessage(alert, point));
+      } catch (error) {
+        // Leave the alert untouched so the next poll tries again
+        log('warn', `Failed to deliver alert #${alert.id} to chat ${alert.chatId}`, { error: String(error) });
+        continue;
+      }
+
+      fired++;
+      if (alert.repeat) {
+        this.alerts.updateState(alert.id, { ...result, triggeredAt: now });
+      } else {
+        this.alerts.remove(alert.id);
+      }
+    }
+
+    log('info', `Alert poll: ${active.length} alerts checked, ${fired} fired`);
+    return fired;
+  }
+}
+
+function formatAlertMessage(alert: PriceAlert, point: PricePoint): string {
+  const price = formatPrice(point.price, point.currency);
+  const detail = alert.condition === 'change' && alert.referencePrice
+    ? `${formatSignedPercent(((point.price - alert.referencePrice) / alert.referencePrice) * 100)} from ${formatPrice(alert.referencePrice, point.currency)}`
+    : `${alert.condition} ${formatPrice(alert.threshold, point.currency)}`;
+  const footer = alert.repeat
+    ? `Repeating alert #${alert.id}. Remove with /unalert ${alert.id}`
+    : `Alert #${alert.id} has been removed.`;
+
+  return `🚨 <b>${escapeHtml(alert.symbol)}</b> is at <b>${escapeHtml(price)}</b> (${escapeHtml(detail)})\n<i>${escapeHtml(footer)}</i>`;
+}
@@ -0,0 +1,47 @@
+import { BreakingNewsCandidate, BreakingNewsConfig, NewsItem, SourceTier } from '../types/index';
+import { getSourceTier } from '../collectors/sources';
+import { clusterStories, coverageCount } from './clustering';
+
+const TIER_POINTS: Record<SourceTier, number> = { 1: 3, 2: 2, 3: 1 };
+const CORROBORATION_POINTS = 2; // Per additional outlet reporting the same story
+const MAX_CORROBORATING_SOURCES = 3;
+const KEYWORD_POINTS = 3;
+const MAX_PUSHED_PER_PASS = 3;
+
+/**
+ * Scores fresh items and returns the stories worth pushing immediately, best first.
+ * Score = source tier + corroboration by other outlets + a bonus for trigger keywords.
+ * Each story is represented by its highest-tier copy, with the rest in `alsoCoveredBy`.
+ */
+export function selectBreakingNews(
+  items: NewsItem[],
+  settings: BreakingNewsConfig,
+  now: Date = new Date()
+): BreakingNewsCandidate[] {
+  const cutoff = now.getTime() - settings.maxAgeMinutes * 60 * 1000;
+  const fresh = items.filter(item => item.publishedAt && item.publishedAt.getTime() >= cutoff);
+
+  const candidates: BreakingNewsCandidate[] = [];
+  for (const story of clusterStories(fresh)) {
+    const titles = [story.title, ...(story.alsoCoveredBy ?? []).map(c => c.title)];
+    const corroboration = Math.min(coverageCount(story) - 1, MAX_CORROBORATING_SOURCES) * CORROBORATION_POINTS;
+    const keywords = titles.some(title => matchesKeyword(title, settings.keywords)) ? KEYWORD_POINTS : 0;
+    const score = TIER_POINTS[getSourceTier(story.source)] + corroboration + keywords;
+
+    if (score >= settings.threshold) {
+      candidates.push({ item: story, score });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_PUSHED_PER_PASS);
+}
+
+/** Whole words only ('war' misses 'warns'); a trailing '*' makes the keyword a stem ('assassinat*') */
+function matchesKeyword(title: string, keywords: string[]): boolean {
+  const lower = title.toLowerCase();
+  return keywords.some(keyword => {
+    const isStem = keyword.endsWith('*');
+    const term = (isStem ? keyword.slice(0, -1) : keyword).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${term}${isStem ? '' : '\\b'}`).test(lower);
+  });
+}
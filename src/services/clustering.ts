@@ -0,0 +1,127 @@
+import { NewsItem } from '../types/index';
+import { getSourceTier } from '../collectors/sources';
+
+/** Cosine similarity at or above which two headlines are treated as the same story */
+export const SAME_STORY_SIMILARITY = 0.4;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have', 'had', 'it', 'its', 'this', 'that', 'these',
+  'after', 'over', 'amid', 'into', 'out', 'up', 'down', 'about', 'says', 'said', 'new', 'will', 'may',
+  'what', 'how', 'why', 'who', 'his', 'her', 'their', 'than', 'more', 'today', 'news', 'live', 'updates',
+]);
+
+/**
+ * Groups near-duplicate headlines from different outlets into one story each.
+ * Headlines are compared by TF-IDF cosine similarity over stemmed words, with
+ * IDF taken from the batch so words every story shares (e.g. "sensex") count
+ * less than the distinctive ones. Returns groups in first-seen order.
+ */
+export function groupSimilarStories(items: NewsItem[], threshold: number = SAME_STORY_SIMILARITY): NewsItem[][] {
+  const vectors = buildTfIdfVectors(items.map(item => tokenize(item.title)));
+  const groups: Array<{ members: number[] }> = [];
+
+  items.forEach((_, i) => {
+    // Join the group holding the most similar headline, if any is similar enough
+    let best: { group: (typeof groups)[number]; similarity: number } | null = null;
+    for (const group of groups) {
+      const similarity = Math.max(...group.members.map(j => cosine(vectors[i], vectors[j])));
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { group, similarity };
+      }
+    }
+
+    if (best) {
+      best.group.members.push(i);
+    } else {
+      groups.push({ members: [i] });
+    }
+  });
+
+  return groups.map(g => g.members.map(i => items[i]));
+}
+
+/**
+ * Collapses each story to one headline, preferring the highest-tier outlet, and
+ * records the other outlets' copies in `alsoCoveredBy`. Copies from the same
+ * outlet are dropped rather than counted as corroboration.
+ */
+export function clusterStories(items: NewsItem[], threshold: number = SAME_STORY_SIMILARITY): NewsItem[] {
+  return groupSimilarStories(items, threshold).map(group => {
+    const [lead, ...rest] = [...group].sort((a, b) => getSourceTier(a.source) - getSourceTier(b.source));
+    const outlets = new Set([lead.source.toLowerCase()]);
+    const alsoCoveredBy = rest.filter(item => {
+      const outlet = item.source.toLowerCase();
+      if (outlets.has(outlet)) return false;
+      outlets.add(outlet);
+      return true;
+    }).map(({ title, url, source }) => ({ title, url, source }));
+
+    return alsoCoveredBy.length > 0 ? { ...lead, alsoCoveredBy } : lead;
+  });
+}
+
+/** Number of distinct outlets reporting a story, including its lead */
+export function coverageCount(item: NewsItem): number {
+  return 1 + (item.alsoCoveredBy?.length ?? 0);
+}
+
+export function tokenize(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/(\d),(?=\d)/g, '$1')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/** Headline verbs outlets use interchangeably for the same move */
+const SYNONYMS: Record<string, string> = {
+  fall: 'down', drop: 'down', slip: 'down', tank: 'down', plunge: 'down', slump: 'down', decline: 'down',
+  sink: 'down', tumble: 'down', crash: 'down', slide: 'down', lower: 'down', fell: 'down',
+  rise: 'up', gain: 'up', jump: 'up', surge: 'up', climb: 'up', rally: 'up', soar: 'up', higher: 'up', rose: 'up',
+  hold: 'hold', keep: 'hold', unchanged: 'hold', steady: 'hold', pause: 'hold', maintain: 'hold',
+};
+
+/** Crude suffix stripping so "falls" and "falling" line up, then synonym folding */
+function stem(word: string): string {
+  if (/^\d/.test(word) || word.length <= 3) return word;
+  const base = word
+    .replace(/ies$/, 'y')
+    .replace(/(ss|x|z|ch|sh)es$/, '$1')
+    .replace(/([^s])s$/, '$1')
+    .replace(/(.{3,})(ing|ed)$/, '$1');
+  return SYNONYMS[word] ?? SYNONYMS[base] ?? SYNONYMS[base + 'e'] ?? base;
+}
+
+function buildTfIdfVectors(documents: string[][]): Array<Map<string, number>> {
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  return documents.map(tokens => {
+    const vector = new Map<string, number>();
+    for (const token of tokens) {
+      vector.set(token, (vector.get(token) ?? 0) + 1);
+    }
+    for (const [token, count] of vector) {
+      vector.set(token, count * Math.log(1 + documents.length / documentFrequency.get(token)!));
+    }
+    return vector;
+  });
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [token, weight] of a) {
+    dot += weight * (b.get(token) ?? 0);
+  }
+  const norm = Math.sqrt([...a.values()].reduce((s, w) => s + w * w, 0)) *
+    Math.sqrt([...b.values()].reduce((s, w) => s + w * w, 0));
+  return norm > 0 ? dot / norm : 0;
+}
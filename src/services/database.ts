@@ -0,0 +1,87 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import fs from 'fs';
+import path from 'path';
+import { log } from '../utils/helpers';
+
+/**
+ * Shared sql.js database persisted to a single file.
+ * Services create their own tables on top of it in their initialize() methods.
+ */
+export class AppDatabase {
+  private db: Database | null = null;
+  private dbPath: string;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async initialize(): Promise<void> {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const SQL = await initSqlJs();
+
+    if (fs.existsSync(this.dbPath)) {
+      const buffer = fs.readFileSync(this.dbPath);
+      this.db = new SQL.Database(buffer);
+    } else {
+      this.db = new SQL.Database();
+    }
+
+    log('info', `Database opened at ${this.dbPath}`);
+  }
+
+  /** Runs a statement and returns the number of rows it changed */
+  run(sql: string, params: SqlValue[] = []): number {
+    const db = this.getDb();
+    db.run(sql, params);
+    return db.getRowsModified();
+  }
+
+  query<T = Record<string, SqlValue>>(sql: string, params: SqlValue[] = []): T[] {
+    const result = this.getDb().exec(sql, params);
+    if (result.length === 0) return [];
+
+    const { columns, values } = result[0];
+    return values.map(row =>
+      Object.fromEntries(columns.map((column, i) => [column, row[i]])) as T
+    );
+  }
+
+  /** First column of the first row, or null when there are no rows */
+  queryValue(sql: string, params: SqlValue[] = []): SqlValue {
+    const result = this.getDb().exec(sql, params);
+    return result.length > 0 && result[0].values.length > 0 ? result[0].values[0][0] : null;
+  }
+
+  /** Adds a column to an existing table; used to migrate databases created by older versions */
+  addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.query<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (!columns.some(c => c.name === column)) {
+      this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      log('info', `Database migrated: added ${table}.${column}`);
+    }
+  }
+
+  save(): void {
+    if (!this.db) return;
+    const data = this.db.export();
+    const buffer = Buffer.from(data);
+    fs.writeFileSync(this.dbPath, buffer);
+  }
+
+  close(): void {
+    if (this.db) {
+      this.save();
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private getDb(): Database {
+    if (!this.db) throw new Error('Database not initialized');
+    return this.db;
+  }
+}
@@ -1,32 +1,21 @@
-import initSqlJs, { Database } from 'sql.js';
-import fs from 'fs';
-import path from 'path';
 import { NewsItem } from '../types/index';
+import { AppDatabase } from './database';
+import { config } from '../config';
 import { hashString, normalizeUrl, normalizeTitle, log } from '../utils/helpers';
+import { startOfLocalDay } from '../utils/time';
 
 export class DeduplicationService {
-  private db: Database | null = null;
-  private dbPath: string;
+  private db: AppDatabase;
 
-  constructor(dbPath: string) {
-    this.dbPath = dbPath;
+  constructor(db: AppDatabase) {
+    this.db = db;
   }
 
-  async initialize(): Promise<void> {
-    const dir = path.dirname(this.dbPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    const SQL = await initSqlJs();
-
-    if (fs.existsSync(this.dbPath)) {
-      const buffer = fs.readFileSync(this.dbPath);
-      this.db = new SQL.Database(buffer);
-    } else {
-      this.db = new SQL.Database();
-    }
-
+  /**
+   * @param legacyChatId Chat that received every bulletin before per-chat delivery
+   * tracking existed; its seen_news history is carried over on first upgrade.
+   */
+  initialize(legacyChatId?: string): void {
     this.db.run(`
       CREATE TABLE IF NOT EXISTS seen_news (
         hash TEXT PRIMARY KEY,
@@ -40,82 +29,118 @@ export class DeduplicationService {
       CREATE INDEX IF NOT EXISTS idx_first_seen ON seen_news(first_seen)
     `);
 
-    this.save();
+    const hadDeliveries = this.db.queryValue(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'delivered_news'"
+    ) !== null;
+
+    // Subscribers on different schedules each need every story once
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS delivered_news (
+        chat_id TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        delivered_at TEXT NOT NULL,
+        PRIMARY KEY (chat_id, hash)
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_delivered_at ON delivered_news(delivered_at)
+    `);
+
+    if (!hadDeliveries && legacyChatId) {
+      this.db.run(
+        'INSERT OR IGNORE INTO delivered_news (chat_id, hash, delivered_at) SELECT ?, hash, first_seen FROM seen_news',
+        [legacyChatId]
+      );
+    }
+
+    this.db.save();
     log('info', 'Deduplication database initialized');
   }
 
-  filterNew(items: NewsItem[]): NewsItem[] {
-    if (!this.db || items.length === 0) return items;
+  /**
+   * Returns items not yet delivered to at least one of the given chats and
+   * records every item in seen_news. Pass only chats that receive the items'
+   * category: nothing is marked delivered to the others, so they would keep
+   * every item new forever.
+   */
+  filterNew(items: NewsItem[], chatIds: string[]): NewsItem[] {
+    if (items.length === 0) return items;
 
     const newItems: NewsItem[] = [];
+    const now = new Date().toISOString();
 
     for (const item of items) {
       const hash = this.computeHash(item);
-      const result = this.db.exec('SELECT 1 FROM seen_news WHERE hash = ?', [hash]);
-      if (result.length === 0 || result[0].values.length === 0) {
-        this.db.run(
-          'INSERT OR IGNORE INTO seen_news (hash, title, category, first_seen) VALUES (?, ?, ?, ?)',
-          [hash, item.title, item.category, new Date().toISOString()]
-        );
+      this.db.run(
+        'INSERT OR IGNORE INTO seen_news (hash, title, category, first_seen) VALUES (?, ?, ?, ?)',
+        [hash, item.title, item.category, now]
+      );
+      if (chatIds.some(chatId => !this.isStoryDelivered(chatId, item))) {
         newItems.push(item);
       }
     }
 
-    this.save();
+    this.db.save();
     log('info', `Dedup: ${items.length} items in, ${newItems.length} new`);
     return newItems;
   }
 
-  private computeHash(item: NewsItem): string {
+  filterUndelivered<T extends NewsItem>(chatId: string, items: T[]): T[] {
+    return items.filter(item => !this.isStoryDelivered(chatId, item));
+  }
+
+  /** Also marks other outlets' copies of each story so they are not sent later as new */
+  markDelivered(chatId: string, items: NewsItem[]): void {
+    const now = new Date().toISOString();
+    for (const item of items.flatMap(i => [i, ...(i.alsoCoveredBy ?? [])])) {
+      this.db.run(
+        'INSERT OR IGNORE INTO delivered_news (chat_id, hash, delivered_at) VALUES (?, ?, ?)',
+        [chatId, this.computeHash(item), now]
+      );
+    }
+    this.db.save();
+  }
+
+  /** A story counts as delivered if any outlet's copy of it was */
+  private isStoryDelivered(chatId: string, item: NewsItem): boolean {
+    return [item, ...(item.alsoCoveredBy ?? [])].some(copy => this.isDelivered(chatId, this.computeHash(copy)));
+  }
+
+  private isDelivered(chatId: string, hash: string): boolean {
+    return this.db.queryValue(
+      'SELECT 1 FROM delivered_news WHERE chat_id = ? AND hash = ?',
+      [chatId, hash]
+    ) !== null;
+  }
+
+  private computeHash(item: Pick<NewsItem, 'title' | 'url'>): string {
     const normalized = normalizeUrl(item.url);
     const title = normalizeTitle(item.title);
     return hashString(`${normalized}|${title}`);
   }
 
-  cleanup(daysOld: number = 7): number {
-    if (!this.db) return 0;
+  /** Drops entries from before local midnight `daysOld` days ago, in config.timezone */
+  cleanup(daysOld: number = 7, now: Date = new Date()): number {
+    const cutoff = startOfLocalDay(config.timezone, now, daysOld);
+    const changes = this.db.run('DELETE FROM seen_news WHERE first_seen < ?', [cutoff.toISOString()]);
+    this.db.run('DELETE FROM delivered_news WHERE delivered_at < ?', [cutoff.toISOString()]);
 
-    const cutoff = new Date();
-    cutoff.setDate(cutoff.getDate() - daysOld);
-    this.db.run('DELETE FROM seen_news WHERE first_seen < ?', [cutoff.toISOString()]);
-
-    const result = this.db.exec('SELECT changes()');
-    const changes = result.length > 0 ? Number(result[0].values[0][0]) : 0;
-
-    this.save();
+    this.db.save();
     log('info', `Dedup cleanup: removed ${changes} entries older than ${daysOld} days`);
     return changes;
   }
 
-  getStats(): { total: number; today: number } {
-    if (!this.db) return { total: 0, today: 0 };
+  /** `today` counts items first seen since local midnight in config.timezone */
+  getStats(now: Date = new Date()): { total: number; today: number } {
+    const total = Number(this.db.queryValue('SELECT COUNT(*) FROM seen_news') ?? 0);
 
-    const totalResult = this.db.exec('SELECT COUNT(*) FROM seen_news');
-    const total = totalResult.length > 0 ? Number(totalResult[0].values[0][0]) : 0;
-
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    const todayResult = this.db.exec(
+    const todayStart = startOfLocalDay(config.timezone, now);
+    const today = Number(this.db.queryValue(
       'SELECT COUNT(*) FROM seen_news WHERE first_seen >= ?',
       [todayStart.toISOString()]
-    );
-    const today = todayResult.length > 0 ? Number(todayResult[0].values[0][0]) : 0;
+    ) ?? 0);
 
     return { total, today };
   }
-
-  private save(): void {
-    if (!this.db) return;
-    const data = this.db.export();
-    const buffer = Buffer.from(data);
-    fs.writeFileSync(this.dbPath, buffer);
-  }
-
-  close(): void {
-    if (this.db) {
-      this.save();
-      this.db.close();
-      this.db = null;
-    }
-  }
 }
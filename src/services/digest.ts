@@ -0,0 +1,64 @@
+import { Digest, DigestPeriod, PricePerformance } from '../types/index';
+import { config } from '../config';
+import { getCollectors } from '../collectors/index';
+import { StoryArchiveService } from './story-archive';
+import { PriceHistoryService } from './price-history';
+import { WatchlistService } from './watchlist';
+import { addDaysToKey, getLocalDateKey, startOfLocalDay, zonedDateTime } from '../utils/time';
+
+const STORIES_PER_CATEGORY = 5;
+const BIGGEST_MOVERS = 3;
+
+export interface DigestDeps {
+  archive: StoryArchiveService;
+  priceHistory: PriceHistoryService;
+  watchlist: WatchlistService;
+}
+
+/**
+ * Recaps the period ending `now` in config.timezone: the past seven days for the
+ * weekly digest, the month so far for the monthly one. Sections follow the
+ * collector order; prices cover every tracked stock, then every configured coin.
+ */
+export function buildDigest(period: DigestPeriod, deps: DigestDeps, now: Date = new Date()): Digest {
+  const from = getDigestStart(period, now);
+
+  const sections = getCollectors().map(collector => ({
+    category: collector.category,
+    title: collector.title,
+    emoji: collector.emoji,
+    stories: deps.archive.getTopStories(collector.category, from, now, STORIES_PER_CATEGORY),
+  }));
+
+  const symbols = [
+    ...deps.watchlist.getAll().map(s => ({ symbol: s.symbol, name: s.name })),
+    ...config.cryptoCoins.map(c => ({ symbol: c.symbol, name: c.symbol })),
+  ];
+
+  return {
+    period,
+    from,
+    to: now,
+    sections,
+    performance: deps.priceHistory.getPerformance(symbols, from, now),
+  };
+}
+
+export function getDigestStart(period: DigestPeriod, now: Date = new Date()): Date {
+  if (period === 'weekly') return startOfLocalDay(config.timezone, now, 6);
+  const monthStart = `${getLocalDateKey(config.timezone, now).slice(0, 8)}01`;
+  return zonedDateTime(monthStart, '00:00', config.timezone);
+}
+
+/** The monthly cron fires on every day that could end a month; only the actual last day sends */
+export function isLastDayOfMonth(now: Date = new Date()): boolean {
+  return addDaysToKey(getLocalDateKey(config.timezone, now), 1).endsWith('-01');
+}
+
+/** Largest moves either way, e.g. for a 'Biggest movers' line */
+export function pickBiggestMovers(performance: PricePerformance[], limit: number = BIGGEST_MOVERS): PricePerformance[] {
+  return [...performance]
+    .filter(p => p.changePercent !== 0)
+    .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+    .slice(0, limit);
+}
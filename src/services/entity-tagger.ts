@@ -0,0 +1,52 @@
+import { CryptoCoin, NewsItem, WatchlistEntry } from '../types/index';
+import { config } from '../config';
+import { termPattern, tickerRoot } from '../utils/helpers';
+
+// Aliases this short are usually acronyms or tickers ('HUL', 'ETH', 'SOL'), so they must match case exactly
+const CASE_SENSITIVE_MAX_LENGTH = 3;
+
+interface EntityPattern {
+  symbol: string;
+  pattern: RegExp;
+}
+
+/** Compiled name -> symbol matchers; build once per collection, since the watchlist can change at runtime */
+export type EntityDictionary = EntityPattern[];
+
+/**
+ * Every symbol in the alias file (by symbol, ticker and aliases) plus the tracked
+ * stocks (by symbol, ticker, and display name unless the alias file lists the symbol)
+ * and coins (by symbol and CoinGecko id). Curated aliases win over display names,
+ * which are bulletin labels and can be generic words, e.g. 'GOLD' for GOLDBEES.NS.
+ */
+export function buildEntityDictionary(
+  stocks: WatchlistEntry[],
+  coins: CryptoCoin[],
+  aliases: Record<string, string[]> = config.entityAliases
+): EntityDictionary {
+  const names = new Map<string, Set<string>>();
+  const add = (symbol: string, ...terms: string[]) => {
+    const set = names.get(symbol) ?? new Set<string>();
+    terms.filter(t => t.trim()).forEach(t => set.add(t.trim()));
+    names.set(symbol, set);
+  };
+
+  for (const [symbol, list] of Object.entries(aliases)) add(symbol, symbol, tickerRoot(symbol), ...list);
+  for (const stock of stocks) {
+    add(stock.symbol, stock.symbol, tickerRoot(stock.symbol), ...(aliases[stock.symbol] ? [] : [stock.name]));
+  }
+  for (const coin of coins) add(coin.symbol, coin.symbol, coin.id);
+
+  return Array.from(names.entries()).flatMap(([symbol, terms]) =>
+    Array.from(terms).map(term => ({ symbol, pattern: termPattern(term, term.length <= CASE_SENSITIVE_MAX_LENGTH) }))
+  );
+}
+
+/** Sets `entities` on items whose title or summary names a dictionary entry; others are returned unchanged */
+export function tagEntities<T extends NewsItem>(items: T[], dictionary: EntityDictionary): T[] {
+  return items.map(item => {
+    const text = item.summary ? `${item.title}\n${item.summary}` : item.title;
+    const symbols = new Set(dictionary.filter(e => e.pattern.test(text)).map(e => e.symbol));
+    return symbols.size > 0 ? { ...item, entities: Array.from(symbols).sort() } : item;
+  });
+}
@@ -1,30 +1,260 @@
-import { MarketStatus } from '../types/index';
-import { getISTDate } from '../utils/helpers';
+import { HolidayCalendar, MarketId, MarketPhase, MarketStatus } from '../types/index';
+import { config } from '../config';
+import { log } from '../utils/helpers';
+import { getLocalDateKey, getLocalClockTime, addDaysToKey, weekdayOfKey, zonedDateTime } from '../utils/time';
 
-export function getIndianMarketStatus(): MarketStatus {
-  const ist = getISTDate();
-  const day = ist.getDay();
-  const isWeekend = day === 0 || day === 6;
+/** Regular trading hours of an exchange, as local 'HH:MM' times */
+export interface ExchangeHours {
+  id: MarketId; // Also the holiday file prefix, e.g. nse-2026.json
+  name: string; // e.g. 'NSE'
+  flag: string;
+  timeZone: string;
+  zoneLabel: string; // Shown after times, e.g. 'IST'
+  preOpen: string;
+  open: string;
+  close: string;
+}
+
+interface Session {
+  name?: string; // Set for special sessions
+  preOpen: string;
+  open: string;
+  close: string;
+}
+
+interface TradingDay {
+  dateKey: string;
+  session: Session | null;
+  holidayName?: string;
+}
+
+// How far ahead to look for the next session; covers the longest holiday runs
+const NEXT_OPEN_SEARCH_DAYS = 14;
+
+export const NSE_HOURS: ExchangeHours = {
+  id: 'nse',
+  name: 'NSE',
+  flag: '🇮🇳',
+  timeZone: 'Asia/Kolkata',
+  zoneLabel: 'IST',
+  preOpen: '09:00',
+  open: '09:15',
+  close: '15:30',
+};
+
+// Pre-open is the start of pre-market trading
+export const NYSE_HOURS: ExchangeHours = {
+  id: 'nyse',
+  name: 'NYSE',
+  flag: '🇺🇸',
+  timeZone: 'America/New_York',
+  zoneLabel: 'ET',
+  preOpen: '04:00',
+  open: '09:30',
+  close: '16:00',
+};
+
+// Pre-open is the opening auction
+export const LSE_HOURS: ExchangeHours = {
+  id: 'lse',
+  name: 'LSE',
+  flag: '🇬🇧',
+  timeZone: 'Europe/London',
+  zoneLabel: 'UK time',
+  preOpen: '07:50',
+  open: '08:00',
+  close: '16:30',
+};
+
+/** In the order the markets-now strip lists them */
+export const EXCHANGES: ExchangeHours[] = [NSE_HOURS, NYSE_HOURS, LSE_HOURS];
+
+// Yahoo index symbols have no exchange suffix, so the common ones are listed
+const INDEX_MARKETS: Record<string, MarketId> = {
+  '^NSEI': 'nse', '^BSESN': 'nse', '^NSEBANK': 'nse',
+  '^GSPC': 'nyse', '^DJI': 'nyse', '^IXIC': 'nyse',
+  '^FTSE': 'lse', '^FTMC': 'lse',
+};
+
+const PHASE_EMOJI: Record<MarketPhase, string> = {
+  open: '🟢',
+  'pre-open': '🟡',
+  closed: '🔴',
+};
+
+/**
+ * Trading days and sessions of one exchange: weekdays in regular hours, minus
+ * holidays, plus special sessions (which may fall on a weekend or holiday).
+ * Years without a holiday file only close on weekends, with a warning.
+ */
+export class MarketCalendar {
+  private hours: ExchangeHours;
+  private years: Set<number>;
+  private holidays: Map<string, string>;
+  private specialSessions: Map<string, Session>;
+  private warnedYears = new Set<number>();
+
+  constructor(hours: ExchangeHours, calendar: HolidayCalendar = { years: [], holidays: [], specialSessions: [] }) {
+    this.hours = hours;
+    this.years = new Set(calendar.years);
+    this.holidays = new Map(calendar.holidays.map(h => [h.date, h.name]));
+    this.specialSessions = new Map(calendar.specialSessions.map(s => [s.date, {
+      name: s.name, preOpen: s.preOpen ?? s.open, open: s.open, close: s.close,
+    }]));
+  }
+
+  isTradingDay(date: Date = new Date()): boolean {
+    return this.getTradingDay(getLocalDateKey(this.hours.timeZone, date)).session !== null;
+  }
+
+  getStatus(now: Date = new Date()): MarketStatus {
+    const today = this.getTradingDay(getLocalDateKey(this.hours.timeZone, now));
+    const clock = getLocalClockTime(this.hours.timeZone, now);
+    const session = today.session;
+
+    let phase: MarketPhase = 'closed';
+    if (session && clock >= session.preOpen && clock < session.open) phase = 'pre-open';
+    if (session && clock >= session.open && clock < session.close) phase = 'open';
+
+    const nextOpen = this.findNextOpen(now);
+    return {
+      market: this.hours.id,
+      isOpen: phase === 'open',
+      phase,
+      isTradingDay: session !== null,
+      holidayName: today.holidayName,
+      sessionName: session?.name,
+      nextOpen: nextOpen?.at ?? null,
+      nextOpenDescription: this.describe(phase, today, clock, nextOpen, now),
+    };
+  }
+
+  private getTradingDay(dateKey: string): TradingDay {
+    const holidayName = this.holidays.get(dateKey);
+    const special = this.specialSessions.get(dateKey);
+    if (special) return { dateKey, session: special, holidayName };
+
+    const weekday = weekdayOfKey(dateKey);
+    if (weekday === 0 || weekday === 6) return { dateKey, session: null };
+    if (holidayName) return { dateKey, session: null, holidayName };
 
-  const hours = ist.getHours();
-  const minutes = ist.getMinutes();
-  const currentMinutes = hours * 60 + minutes;
+    this.warnIfUncovered(dateKey);
+    const { preOpen, open, close } = this.hours;
+    return { dateKey, session: { preOpen, open, close } };
+  }
+
+  private findNextOpen(now: Date): { at: Date; day: TradingDay } | null {
+    const todayKey = getLocalDateKey(this.hours.timeZone, now);
+    for (let offset = 0; offset <= NEXT_OPEN_SEARCH_DAYS; offset++) {
+      const day = this.getTradingDay(addDaysToKey(todayKey, offset));
+      if (!day.session) continue;
+      const at = zonedDateTime(day.dateKey, day.session.open, this.hours.timeZone);
+      if (at > now) return { at, day };
+    }
+    return null;
+  }
+
+  private describe(
+    phase: MarketPhase,
+    today: TradingDay,
+    clock: string,
+    next: { at: Date; day: TradingDay } | null,
+    now: Date
+  ): string {
+    const session = today.session;
+    const zone = this.hours.zoneLabel;
+
+    if (session && phase === 'open') {
+      return session.name
+        ? `${session.name} session open until ${this.formatClock(session.close)} ${zone}.`
+        : 'Market is open.';
+    }
+    if (session && phase === 'pre-open') {
+      return `${session.name ?? 'Pre-open session'}: orders being collected. Opens at ${this.formatClock(session.open)} ${zone}.`;
+    }
+    if (session && clock < session.preOpen) {
+      return session.name
+        ? `Market closed. ${session.name} session at ${this.formatClock(session.open)} ${zone}.`
+        : `Pre-market. Opens at ${this.formatClock(session.open)} ${zone}.`;
+    }
+
+    const opens = next ? this.describeNextOpen(next, now) : `not scheduled in the next ${NEXT_OPEN_SEARCH_DAYS} days`;
+    if (session) {
+      return `Market closed. Last close prices shown. Next open: ${opens}.`;
+    }
+    return `Market closed (${today.holidayName ?? 'weekend'}). Opens ${opens}.`;
+  }
 
-  const marketOpen = 9 * 60 + 15;   // 9:15 AM
-  const marketClose = 15 * 60 + 30; // 3:30 PM
+  /** e.g. 'tomorrow 9:15 AM IST' or 'Thursday 22 Oct, 9:15 AM IST (Muhurat Trading)' */
+  private describeNextOpen({ at, day }: { at: Date; day: TradingDay }, now: Date): string {
+    const tomorrowKey = addDaysToKey(getLocalDateKey(this.hours.timeZone, now), 1);
+    const when = day.dateKey === tomorrowKey
+      ? 'tomorrow'
+      : new Intl.DateTimeFormat('en-GB', {
+        timeZone: this.hours.timeZone, weekday: 'long', day: 'numeric', month: 'short',
+      }).format(at) + ',';
+    const special = day.session?.name ? ` (${day.session.name})` : '';
+    return `${when} ${this.formatClock(day.session!.open)} ${this.hours.zoneLabel}${special}`;
+  }
 
-  const isOpen = !isWeekend && currentMinutes >= marketOpen && currentMinutes <= marketClose;
+  /** '09:15' -> '9:15 AM' */
+  private formatClock(time: string): string {
+    const [hours, minutes] = time.split(':').map(Number);
+    return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+  }
 
-  let nextOpenDescription: string;
-  if (isWeekend) {
-    nextOpenDescription = 'Market closed (weekend). Opens Monday 9:15 AM IST.';
-  } else if (currentMinutes < marketOpen) {
-    nextOpenDescription = 'Pre-market. Opens at 9:15 AM IST.';
-  } else if (currentMinutes > marketClose) {
-    nextOpenDescription = 'Market closed. Last close prices shown.';
-  } else {
-    nextOpenDescription = 'Market is open.';
+  private warnIfUncovered(dateKey: string): void {
+    const year = Number(dateKey.slice(0, 4));
+    if (this.years.has(year) || this.warnedYears.has(year)) return;
+    this.warnedYears.add(year);
+    log('warn', `No ${this.hours.name} holiday calendar for ${year}; only weekends are treated as closed`);
   }
+}
+
+const calendars = new Map<MarketId, MarketCalendar>(
+  EXCHANGES.map(hours => [hours.id, new MarketCalendar(hours, config.holidayCalendars[hours.id])])
+);
+
+export function getMarketStatus(market: MarketId, now: Date = new Date()): MarketStatus {
+  return calendars.get(market)!.getStatus(now);
+}
+
+export function getExchange(market: MarketId): ExchangeHours {
+  return EXCHANGES.find(e => e.id === market)!;
+}
+
+/**
+ * The exchange a Yahoo Finance symbol trades on: '.NS'/'.BO' for NSE and BSE,
+ * '.L' for London, no suffix for US listings (e.g. 'AAPL', 'BRK-B').
+ * Null for other exchanges, crypto pairs and futures.
+ */
+export function getMarketForSymbol(symbol: string): MarketId | null {
+  const upper = symbol.trim().toUpperCase();
+  if (upper.startsWith('^')) return INDEX_MARKETS[upper] ?? null;
+  if (/\.(NS|BO)$/.test(upper)) return 'nse';
+  if (/\.L$/.test(upper)) return 'lse';
+  if (/^[A-Z]{1,5}(-[A-Z])?$/.test(upper)) return 'nyse';
+  return null;
+}
+
+/** e.g. '🇮🇳 NSE 🟢 · 🇺🇸 NYSE 🔴 · 🇬🇧 LSE 🟡' */
+export function describeMarketsNow(now: Date = new Date()): string {
+  return EXCHANGES
+    .map(e => `${e.flag} ${e.name} ${PHASE_EMOJI[getMarketStatus(e.id, now).phase]}`)
+    .join(' · ');
+}
+
+/** Short status for a quote listed outside the section's market, e.g. '🇺🇸 closed (Thanksgiving)' */
+export function describeQuoteMarket(status: MarketStatus): string {
+  const phase = status.phase === 'closed' && status.holidayName ? `closed (${status.holidayName})` : status.phase;
+  return `${getExchange(status.market).flag} ${phase}`;
+}
+
+export function getIndianMarketStatus(now: Date = new Date()): MarketStatus {
+  return getMarketStatus('nse', now);
+}
 
-  return { isOpen, isWeekend, nextOpenDescription };
+/** False on weekends and NSE holidays, unless a special session such as Muhurat trading is held */
+export function isIndianTradingDay(now: Date = new Date()): boolean {
+  return calendars.get('nse')!.isTradingDay(now);
 }
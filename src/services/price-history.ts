@@ -0,0 +1,163 @@
+import { PriceComparison, PricePerformance, PricePoint, PriceSnapshot, PriceKind } from '../types/index';
+import { AppDatabase } from './database';
+import { config } from '../config';
+import { log } from '../utils/helpers';
+import { startOfLocalDay } from '../utils/time';
+
+interface SnapshotRow {
+  symbol: string;
+  kind: PriceKind;
+  price: number;
+  currency: string;
+  captured_at: string;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class PriceHistoryService {
+  private db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  initialize(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS price_snapshots (
+        symbol TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        price REAL NOT NULL,
+        currency TEXT NOT NULL,
+        captured_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_price_symbol_time ON price_snapshots(symbol, captured_at)
+    `);
+
+    this.db.save();
+    log('info', 'Price history table initialized');
+  }
+
+  record(points: PricePoint[], capturedAt: Date = new Date()): void {
+    const valid = points.filter(p => p.price > 0);
+    for (const point of valid) {
+      this.db.run(
+        'INSERT INTO price_snapshots (symbol, kind, price, currency, captured_at) VALUES (?, ?, ?, ?, ?)',
+        [point.symbol, point.kind, point.price, point.currency, capturedAt.toISOString()]
+      );
+    }
+    this.db.save();
+    log('info', `Price history: recorded ${valid.length} snapshots`);
+  }
+
+  /**
+   * Compares current prices with the latest snapshot taken at or before `previousAt`
+   * (the recipient's previous bulletin; defaults to the latest snapshot before `now`)
+   * and with the latest snapshot at least 7 days old.
+   */
+  compare(points: PricePoint[], previousAt?: Date, now: Date = new Date()): Map<string, PriceComparison> {
+    const comparisons = new Map<string, PriceComparison>();
+    const weekAgo = new Date(now.getTime() - WEEK_MS);
+
+    for (const point of points) {
+      if (point.price <= 0) continue;
+
+      const previous = previousAt
+        ? this.latestAtOrBefore(point.symbol, previousAt)
+        : this.latestBefore(point.symbol, now);
+      const week = this.latestAtOrBefore(point.symbol, weekAgo);
+
+      comparisons.set(point.symbol, {
+        sincePreviousPercent: previous ? percentChange(previous.price, point.price) : undefined,
+        weekPercent: week ? percentChange(week.price, point.price) : undefined,
+      });
+    }
+
+    return comparisons;
+  }
+
+  /**
+   * Change of each symbol between `from` and `to`: from the latest snapshot at or
+   * before `from` (or the first one after it, for symbols tracked since) to the
+   * latest at or before `to`. Symbols without two snapshots in range are left out.
+   */
+  getPerformance(symbols: Array<{ symbol: string; name: string }>, from: Date, to: Date): PricePerformance[] {
+    const performance: PricePerformance[] = [];
+
+    for (const { symbol, name } of symbols) {
+      const start = this.latestAtOrBefore(symbol, from) ?? this.earliestAtOrAfter(symbol, from);
+      const end = this.latestAtOrBefore(symbol, to);
+      if (!start || !end || end.capturedAt <= start.capturedAt) continue;
+
+      const changePercent = percentChange(start.price, end.price);
+      if (changePercent === undefined) continue;
+      performance.push({
+        symbol, name, kind: end.kind, currency: end.currency,
+        price: end.price, startPrice: start.price, changePercent,
+      });
+    }
+
+    return performance;
+  }
+
+  getHistory(symbol: string, since: Date): PriceSnapshot[] {
+    return this.db.query<SnapshotRow>(
+      `SELECT symbol, kind, price, currency, captured_at FROM price_snapshots
+       WHERE symbol = ? AND captured_at >= ? ORDER BY captured_at`,
+      [symbol, since.toISOString()]
+    ).map(toSnapshot);
+  }
+
+  /** Drops entries from before local midnight `daysOld` days ago, in config.timezone */
+  cleanup(daysOld: number = 400, now: Date = new Date()): number {
+    const cutoff = startOfLocalDay(config.timezone, now, daysOld);
+    const changes = this.db.run('DELETE FROM price_snapshots WHERE captured_at < ?', [cutoff.toISOString()]);
+
+    this.db.save();
+    log('info', `Price history cleanup: removed ${changes} snapshots older than ${daysOld} days`);
+    return changes;
+  }
+
+  private latestAtOrBefore(symbol: string, at: Date): PriceSnapshot | null {
+    const rows = this.db.query<SnapshotRow>(
+      `SELECT symbol, kind, price, currency, captured_at FROM price_snapshots
+       WHERE symbol = ? AND captured_at <= ? ORDER BY captured_at DESC LIMIT 1`,
+      [symbol, at.toISOString()]
+    );
+    return rows.length > 0 ? toSnapshot(rows[0]) : null;
+  }
+
+  private earliestAtOrAfter(symbol: string, at: Date): PriceSnapshot | null {
+    const rows = this.db.query<SnapshotRow>(
+      `SELECT symbol, kind, price, currency, captured_at FROM price_snapshots
+       WHERE symbol = ? AND captured_at >= ? ORDER BY captured_at LIMIT 1`,
+      [symbol, at.toISOString()]
+    );
+    return rows.length > 0 ? toSnapshot(rows[0]) : null;
+  }
+
+  private latestBefore(symbol: string, at: Date): PriceSnapshot | null {
+    const rows = this.db.query<SnapshotRow>(
+      `SELECT symbol, kind, price, currency, captured_at FROM price_snapshots
+       WHERE symbol = ? AND captured_at < ? ORDER BY captured_at DESC LIMIT 1`,
+      [symbol, at.toISOString()]
+    );
+    return rows.length > 0 ? toSnapshot(rows[0]) : null;
+  }
+}
+
+function toSnapshot(row: SnapshotRow): PriceSnapshot {
+  return {
+    symbol: row.symbol,
+    kind: row.kind,
+    price: Number(row.price),
+    currency: row.currency,
+    capturedAt: new Date(row.captured_at),
+  };
+}
+
+function percentChange(from: number, to: number): number | undefined {
+  return from > 0 ? ((to - from) / from) * 100 : undefined;
+}
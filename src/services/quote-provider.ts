@@ -0,0 +1,37 @@
+import { CryptoCoin, QuoteProvider } from '../types/index';
+import { fetchStockQuotes } from './stock-quotes';
+import { fetchCoinPrices } from '../collectors/crypto';
+import { log } from '../utils/helpers';
+
+/**
+ * Live prices from Yahoo Finance (stocks) and CoinGecko (the configured coins).
+ * Either source failing leaves its instruments out rather than failing the other's.
+ */
+export function createMarketQuoteProvider(coins: CryptoCoin[]): QuoteProvider {
+  return {
+    async getPrices(instruments) {
+      const stockSymbols = instruments.filter(i => i.kind === 'stock').map(i => i.symbol);
+      const coinSymbols = new Set(instruments.filter(i => i.kind === 'crypto').map(i => i.symbol));
+      const wantedCoins = coins.filter(c => coinSymbols.has(c.symbol));
+
+      const [stockQuotes, coinPrices] = await Promise.allSettled([
+        fetchStockQuotes(stockSymbols.map(symbol => ({ symbol, name: symbol }))),
+        wantedCoins.length > 0 ? fetchCoinPrices(wantedCoins) : Promise.resolve([]),
+      ]);
+
+      if (stockQuotes.status === 'rejected') {
+        log('warn', 'Stock quotes unavailable for alerts', { error: String(stockQuotes.reason) });
+      }
+      if (coinPrices.status === 'rejected') {
+        log('warn', 'Coin prices unavailable for alerts', { error: String(coinPrices.reason) });
+      }
+
+      return [
+        ...(stockQuotes.status === 'fulfilled' ? stockQuotes.value : [])
+          .map(q => ({ symbol: q.symbol, kind: 'stock' as const, price: q.price, currency: q.currency })),
+        ...(coinPrices.status === 'fulfilled' ? coinPrices.value : [])
+          .map(p => ({ symbol: p.symbol, kind: 'crypto' as const, price: p.priceUsd, currency: 'USD' })),
+      ];
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { NewsItem, RankingWeights, VerifiedNewsItem } from '../types/index';
+import { config } from '../config';
+import { getSourceReputationScore } from '../collectors/sources';
+import { coverageCount } from './clustering';
+import { termPattern } from '../utils/helpers';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RankingContext {
+  watchSymbols?: string[]; // Stock and coin symbols the reader follows, matched against tagged `entities`
+}
+
+/** Each relevance signal of an item, all 0-1 */
+export interface RankingSignals {
+  recency: number;
+  source: number;
+  corroboration: number;
+  keyword: number;
+  watchlist: number;
+  confidence: number;
+}
+
+/**
+ * Orders items by relevance score, highest first, newest first among equals.
+ * Category keywords come from the feeds config; `weights` and `now` are
+ * parameters so rankings can be checked without a live config or clock.
+ */
+export function rankNews<T extends NewsItem>(
+  items: T[],
+  context: RankingContext = {},
+  weights: RankingWeights = config.feeds.ranking,
+  now: Date = new Date()
+): T[] {
+  const watched = new Set(context.watchSymbols ?? []);
+  const scored = items.map(item => ({
+    item,
+    score: weightedScore(computeSignals(item, watched, weights, now), weights),
+  }));
+
+  return scored
+    .sort((a, b) =>
+      b.score - a.score ||
+      (b.item.publishedAt?.getTime() || 0) - (a.item.publishedAt?.getTime() || 0)
+    )
+    .map(s => s.item);
+}
+
+export function scoreNewsItem(
+  item: NewsItem,
+  context: RankingContext = {},
+  weights: RankingWeights = config.feeds.ranking,
+  now: Date = new Date()
+): number {
+  return weightedScore(rankingSignals(item, context, weights, now), weights);
+}
+
+export function rankingSignals(
+  item: NewsItem,
+  context: RankingContext = {},
+  weights: RankingWeights = config.feeds.ranking,
+  now: Date = new Date()
+): RankingSignals {
+  return computeSignals(item, new Set(context.watchSymbols ?? []), weights, now);
+}
+
+function computeSignals(item: NewsItem, watched: Set<string>, weights: RankingWeights, now: Date): RankingSignals {
+  const keywords = config.feeds.categories[item.category]?.keywords ?? [];
+  return {
+    recency: recencySignal(item, weights, now),
+    source: getSourceReputationScore(item.source),
+    corroboration: Math.min(coverageCount(item) - 1, weights.maxCorroboration) / weights.maxCorroboration,
+    keyword: keywords.some(k => termPattern(k).test(item.title)) ? 1 : 0,
+    watchlist: item.entities?.some(symbol => watched.has(symbol)) ? 1 : 0,
+    confidence: confidenceSignal(item),
+  };
+}
+
+function weightedScore(signals: RankingSignals, weights: RankingWeights): number {
+  return (
+    signals.recency * weights.recency +
+    signals.source * weights.source +
+    signals.corroboration * weights.corroboration +
+    signals.keyword * weights.keyword +
+    signals.watchlist * weights.watchlist +
+    signals.confidence * weights.confidence
+  );
+}
+
+/** Halves every `recencyHalfLifeHours`; future-dated items count as brand new */
+function recencySignal(item: NewsItem, weights: RankingWeights, now: Date): number {
+  const published = item.publishedAt?.getTime();
+  if (published === undefined || Number.isNaN(published)) return weights.undatedRecency;
+  const ageHours = Math.max(0, now.getTime() - published) / HOUR_MS;
+  return Math.pow(0.5, ageHours / weights.recencyHalfLifeHours);
+}
+
+/** Items not verified yet all score full confidence, so ranking before verification is unaffected */
+function confidenceSignal(item: NewsItem | VerifiedNewsItem): number {
+  if (!('isVerified' in item)) return 1;
+  if (!item.isVerified) return 0;
+  return item.verdict === 'PASS' ? 1 : 0.5;
+}
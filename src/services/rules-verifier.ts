@@ -0,0 +1,125 @@
+import { NewsItem, NewsVerifier, VerificationReport, VerificationRules, VerifiedNewsItem } from '../types/index';
+import { getSourceTier } from '../collectors/sources';
+import { log } from '../utils/helpers';
+
+const CAPS_RATIO_LIMIT = 0.6; // Titles mostly in capitals read as shouting
+const MIN_LETTERS_FOR_CAPS_CHECK = 12;
+
+interface RuleScore {
+  score: number;
+  reasons: string[];
+  denied: boolean;
+}
+
+/**
+ * Offline verifier that scores each item from its source tier, link domain,
+ * corroboration, title wording and age. Needs no model key, so it runs with
+ * AI_PROVIDER=rules and backs the AI chain when every provider fails.
+ */
+export class RulesVerifier implements NewsVerifier {
+  private rules: VerificationRules;
+  private clickbait: RegExp[];
+  private sensational: RegExp[];
+
+  constructor(rules: VerificationRules) {
+    this.rules = rules;
+    this.clickbait = rules.clickbaitPatterns.map(p => new RegExp(p, 'i'));
+    this.sensational = rules.sensationalPatterns.map(p => new RegExp(p, 'i'));
+  }
+
+  async verifyNews(items: NewsItem[]): Promise<VerificationReport> {
+    const verified = this.verifyItems(items, new Date());
+    log('info', `Rules verifier: ${verified.filter(i => i.isVerified).length}/${items.length} items passed`);
+    return { items: verified, failedBatches: [] };
+  }
+
+  private verifyItems(items: NewsItem[], now: Date): VerifiedNewsItem[] {
+    return items.map(item => {
+      const { score, reasons, denied } = this.score(item, now);
+      const reason = `score ${score}${reasons.length > 0 ? `: ${reasons.join(', ')}` : ''}`;
+
+      if (denied || score < this.rules.uncertainScore) {
+        return { ...item, isVerified: false, verificationNote: `Excluded by rules (${reason})`, verifiedBy: 'rules', verdict: 'FAIL' };
+      }
+      if (score < this.rules.passScore) {
+        return { ...item, isVerified: true, verificationNote: `⚠️ Unverified: ${reason}`, verifiedBy: 'rules', verdict: 'UNCERTAIN' };
+      }
+      return { ...item, isVerified: true, verifiedBy: 'rules', verdict: 'PASS' };
+    });
+  }
+
+  private score(item: NewsItem, now: Date): RuleScore {
+    const rules = this.rules;
+    const reasons: string[] = [];
+    const host = hostnameOf(item.url);
+
+    if (host && rules.denyDomains.some(d => matchesDomain(host, d))) {
+      return { score: 0, reasons: [`${host} is on the deny list`], denied: true };
+    }
+
+    const tier = getSourceTier(item.source);
+    let score = rules.tierWeights[tier];
+    reasons.push(`tier ${tier} source`);
+
+    if (host && rules.allowDomains.some(d => matchesDomain(host, d))) {
+      score += rules.allowDomainBonus;
+      reasons.push('trusted domain');
+    }
+
+    const outlets = item.alsoCoveredBy?.length ?? 0;
+    if (outlets > 0) {
+      score += Math.min(outlets * rules.corroborationBonus, rules.maxCorroborationBonus);
+      reasons.push(`${outlets} other outlet${outlets === 1 ? '' : 's'}`);
+    }
+
+    if (host && !rules.redirectDomains.some(d => matchesDomain(host, d))) {
+      const expected = Object.entries(rules.sourceDomains)
+        .find(([name]) => item.source.toLowerCase().includes(name.toLowerCase()))?.[1];
+      if (expected && !expected.some(d => matchesDomain(host, d))) {
+        score -= rules.domainMismatchPenalty;
+        reasons.push(`link domain ${host} does not match ${item.source}`);
+      }
+    }
+
+    if (this.clickbait.some(p => p.test(item.title)) || isShouting(item.title)) {
+      score -= rules.clickbaitPenalty;
+      reasons.push('clickbait wording');
+    }
+    if (this.sensational.some(p => p.test(item.title))) {
+      score -= rules.sensationalPenalty;
+      reasons.push('sensational wording');
+    }
+
+    if (item.publishedAt) {
+      const ageHours = (now.getTime() - item.publishedAt.getTime()) / (60 * 60 * 1000);
+      if (ageHours > rules.freshness.maxAgeHours) {
+        const daysOver = Math.ceil((ageHours - rules.freshness.maxAgeHours) / 24);
+        score -= daysOver * rules.freshness.penaltyPerDay;
+        reasons.push(`${Math.floor(ageHours / 24)} days old`);
+      }
+    }
+
+    return { score, reasons, denied: false };
+  }
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/** True for the domain itself and its subdomains */
+function matchesDomain(host: string, domain: string): boolean {
+  const d = domain.toLowerCase();
+  return host === d || host.endsWith(`.${d}`);
+}
+
+function isShouting(title: string): boolean {
+  const letters = title.replace(/[^\p{L}]/gu, '');
+  if (letters.length < MIN_LETTERS_FOR_CAPS_CHECK) return false;
+  const upper = letters.replace(/[^\p{Lu}]/gu, '').length;
+  return upper / letters.length > CAPS_RATIO_LIMIT;
+}
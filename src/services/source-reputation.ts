@@ -0,0 +1,145 @@
+import { SourceReputation, Verdict, VerifiedNewsItem } from '../types/index';
+import { AppDatabase } from './database';
+import { hashString, normalizeUrl, normalizeTitle, log } from '../utils/helpers';
+
+interface VerdictCountRow {
+  source: string;
+  pass: number;
+  uncertain: number;
+  fail: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Verdicts older than this no longer count towards a source's reputation */
+export const REPUTATION_WINDOW_DAYS = 90;
+
+/** Verdicts a source needs before its learned reputation overrides its configured tier */
+export const MIN_REPUTATION_VERDICTS = 10;
+
+// Pseudo-verdicts at a neutral 0.5, so a handful of early verdicts cannot swing the score to 0 or 1
+const PRIOR_WEIGHT = 4;
+
+const VERDICT_COLUMNS: Record<Verdict, string> = { PASS: 'pass_count', UNCERTAIN: 'uncertain_count', FAIL: 'fail_count' };
+
+/**
+ * Learns how reliable each source is from the AI verifier's verdicts, kept as
+ * daily counts per source. Verdicts from the offline rules and the Tier 1
+ * fallback are not recorded, since those are themselves derived from source tiers.
+ * Each story counts once, however often it is verified again.
+ */
+export class SourceReputationService {
+  private db: AppDatabase;
+  private cache = new Map<string, SourceReputation>();
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  initialize(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS source_verdicts (
+        source TEXT NOT NULL,
+        day TEXT NOT NULL,
+        pass_count INTEGER NOT NULL DEFAULT 0,
+        uncertain_count INTEGER NOT NULL DEFAULT 0,
+        fail_count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (source, day)
+      )
+    `);
+
+    // Stories whose verdict is already counted
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS source_verdict_stories (
+        hash TEXT PRIMARY KEY,
+        day TEXT NOT NULL
+      )
+    `);
+
+    this.db.save();
+    this.refresh();
+    log('info', `Source reputation table initialized (${this.cache.size} sources)`);
+  }
+
+  /** Adds the AI verdicts among `items` to their sources' counts, skipping stories already counted; returns how many were recorded */
+  record(items: VerifiedNewsItem[], at: Date = new Date()): number {
+    const day = at.toISOString().slice(0, 10);
+    const learnable = items.filter(i => i.verdict && i.verifiedBy && i.verifiedBy !== 'rules' && i.verifiedBy !== 'heuristic');
+    const recorded = learnable.filter(item => this.db.run(
+      'INSERT OR IGNORE INTO source_verdict_stories (hash, day) VALUES (?, ?)',
+      [hashString(`${normalizeUrl(item.url)}|${normalizeTitle(item.title)}`), day]
+    ) > 0);
+
+    for (const item of recorded) {
+      const column = VERDICT_COLUMNS[item.verdict!];
+      this.db.run(
+        `INSERT INTO source_verdicts (source, day, ${column}) VALUES (?, ?, 1)
+         ON CONFLICT (source, day) DO UPDATE SET ${column} = ${column} + 1`,
+        [item.source, day]
+      );
+    }
+
+    if (recorded.length > 0) {
+      this.db.save();
+      this.refresh(at);
+    }
+    return recorded.length;
+  }
+
+  /** Reputation over the window, or undefined for a source with no recorded verdicts */
+  get(source: string): SourceReputation | undefined {
+    return this.cache.get(source.toLowerCase());
+  }
+
+  /** Every source with at least `minVerdicts` verdicts, most reliable first */
+  getRanked(minVerdicts: number = MIN_REPUTATION_VERDICTS): SourceReputation[] {
+    return Array.from(this.cache.values())
+      .filter(r => r.total >= minVerdicts)
+      .sort((a, b) => b.score - a.score || b.total - a.total);
+  }
+
+  /** Number of sources with at least one verdict in the window */
+  count(): number {
+    return this.cache.size;
+  }
+
+  cleanup(daysOld: number = REPUTATION_WINDOW_DAYS): number {
+    const cutoff = new Date(Date.now() - daysOld * DAY_MS).toISOString().slice(0, 10);
+    const changes = this.db.run('DELETE FROM source_verdicts WHERE day < ?', [cutoff]);
+    this.db.run('DELETE FROM source_verdict_stories WHERE day < ?', [cutoff]);
+    this.db.save();
+    this.refresh();
+    log('info', `Source reputation cleanup: removed ${changes} daily counts older than ${daysOld} days`);
+    return changes;
+  }
+
+  private refresh(now: Date = new Date()): void {
+    const since = new Date(now.getTime() - REPUTATION_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10);
+    const rows = this.db.query<VerdictCountRow>(
+      `SELECT source, SUM(pass_count) AS pass, SUM(uncertain_count) AS uncertain, SUM(fail_count) AS fail
+       FROM source_verdicts WHERE day >= ? GROUP BY source`,
+      [since]
+    );
+
+    this.cache.clear();
+    for (const row of rows) {
+      const reputation = toReputation(row);
+      const key = row.source.toLowerCase();
+      const existing = this.cache.get(key);
+      // Names differing only in case are the same outlet
+      this.cache.set(key, existing ? toReputation({
+        source: existing.source,
+        pass: existing.pass + reputation.pass,
+        uncertain: existing.uncertain + reputation.uncertain,
+        fail: existing.fail + reputation.fail,
+      }) : reputation);
+    }
+  }
+}
+
+/** An uncertain verdict counts as half a pass */
+function toReputation({ source, pass, uncertain, fail }: VerdictCountRow): SourceReputation {
+  const total = pass + uncertain + fail;
+  const score = (pass + uncertain * 0.5 + PRIOR_WEIGHT * 0.5) / (total + PRIOR_WEIGHT);
+  return { source, pass, uncertain, fail, total, score };
+}
@@ -0,0 +1,67 @@
+import { StockQuote, WatchlistEntry } from '../types/index';
+import { withRetry, log } from '../utils/helpers';
+
+export async function fetchStockQuotes(stocks: Array<Pick<WatchlistEntry, 'symbol' | 'name'>>): Promise<StockQuote[]> {
+  if (stocks.length === 0) return [];
+
+  return withRetry(async () => {
+    const yahooFinance = await loadYahooFinance();
+
+    const results = await Promise.allSettled(
+      stocks.map(stock => yahooFinance.quote(stock.symbol))
+    );
+
+    const quotes: StockQuote[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const stock = stocks[i];
+      if (result.status === 'fulfilled' && result.value) {
+        const q = result.value;
+        quotes.push({
+          symbol: stock.symbol,
+          name: stock.name,
+          price: q.regularMarketPrice || 0,
+          currency: q.currency || 'INR',
+          change: q.regularMarketChange || 0,
+          changePercent: q.regularMarketChangePercent || 0,
+          dayHigh: q.regularMarketDayHigh,
+          dayLow: q.regularMarketDayLow,
+          marketState: q.marketState || 'UNKNOWN',
+        });
+      } else {
+        log('warn', `Failed to fetch quote for ${stock.symbol}`, {
+          error: result.status === 'rejected' ? String(result.reason) : 'empty result',
+        });
+      }
+    }
+    return quotes;
+  }, 2, 3000, 'Yahoo Finance quotes');
+}
+
+/**
+ * Checks a symbol against Yahoo Finance.
+ * Returns its display name and currency, or null if Yahoo has no price for it.
+ * Network and API failures are thrown so callers can tell them apart from unknown symbols.
+ */
+export async function lookupStockSymbol(symbol: string): Promise<{ symbol: string; name: string; currency: string } | null> {
+  const yahooFinance = await loadYahooFinance();
+
+  try {
+    const q = await yahooFinance.quote(symbol);
+    if (!q || typeof q.regularMarketPrice !== 'number') return null;
+    return {
+      symbol: String(q.symbol || symbol),
+      name: String(q.shortName || q.longName || symbol),
+      currency: String(q.currency || 'INR'),
+    };
+  } catch (error) {
+    if (/not found|no data|invalid/i.test(String(error))) return null;
+    log('warn', `Symbol lookup failed for ${symbol}`, { error: String(error) });
+    throw error;
+  }
+}
+
+async function loadYahooFinance(): Promise<{ quote(symbol: string): Promise<any> }> {
+  const mod = await import('yahoo-finance2');
+  return mod.default as any;
+}
@@ -0,0 +1,92 @@
+import { ArchivedStory, NewsCategory, VerifiedNewsItem } from '../types/index';
+import { AppDatabase } from './database';
+import { coverageCount } from './clustering';
+import { config } from '../config';
+import { hashString, normalizeUrl, normalizeTitle, log } from '../utils/helpers';
+import { startOfLocalDay } from '../utils/time';
+
+interface StoryRow {
+  title: string;
+  url: string;
+  source: string;
+  category: string;
+  coverage: number;
+  first_seen: string;
+}
+
+/**
+ * Keeps every verified story the bot has published, with how many outlets
+ * covered it, so weekly and monthly digests can recap the period. Callers
+ * record items once a chat has been sent them, not straight after verification.
+ */
+export class StoryArchiveService {
+  private db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  initialize(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS story_archive (
+        hash TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        url TEXT NOT NULL,
+        source TEXT NOT NULL,
+        category TEXT NOT NULL,
+        coverage INTEGER NOT NULL,
+        first_seen TEXT NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_story_category_time ON story_archive(category, first_seen)
+    `);
+
+    this.db.save();
+    log('info', 'Story archive table initialized');
+  }
+
+  /** Archives the verified items; a story seen again keeps the highest coverage it reached */
+  record(items: VerifiedNewsItem[], at: Date = new Date()): number {
+    const verified = items.filter(i => i.isVerified);
+    for (const item of verified) {
+      const hash = hashString(`${normalizeUrl(item.url)}|${normalizeTitle(item.title)}`);
+      this.db.run(
+        `INSERT INTO story_archive (hash, title, url, source, category, coverage, first_seen) VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (hash) DO UPDATE SET coverage = MAX(coverage, excluded.coverage)`,
+        [hash, item.title, item.url, item.source, item.category, coverageCount(item), at.toISOString()]
+      );
+    }
+
+    if (verified.length > 0) this.db.save();
+    return verified.length;
+  }
+
+  /** The most corroborated stories first seen between `from` and `to`, newest first among equals */
+  getTopStories(category: NewsCategory, from: Date, to: Date, limit: number): ArchivedStory[] {
+    return this.db.query<StoryRow>(
+      `SELECT title, url, source, category, coverage, first_seen FROM story_archive
+       WHERE category = ? AND first_seen >= ? AND first_seen <= ?
+       ORDER BY coverage DESC, first_seen DESC LIMIT ?`,
+      [category, from.toISOString(), to.toISOString(), limit]
+    ).map(row => ({
+      title: row.title,
+      url: row.url,
+      source: row.source,
+      category: row.category,
+      coverage: Number(row.coverage),
+      firstSeen: new Date(row.first_seen),
+    }));
+  }
+
+  /** Drops entries from before local midnight `daysOld` days ago, in config.timezone */
+  cleanup(daysOld: number = 62, now: Date = new Date()): number {
+    const cutoff = startOfLocalDay(config.timezone, now, daysOld);
+    const changes = this.db.run('DELETE FROM story_archive WHERE first_seen < ?', [cutoff.toISOString()]);
+
+    this.db.save();
+    log('info', `Story archive cleanup: removed ${changes} stories older than ${daysOld} days`);
+    return changes;
+  }
+}
@@ -0,0 +1,153 @@
+import { Subscriber, SubscriberPreferences } from '../types/index';
+import { AppDatabase } from './database';
+import { log } from '../utils/helpers';
+
+interface SubscriberRow {
+  chat_id: string;
+  title: string | null;
+  subscribed_at: string;
+  categories: string | null;
+  watchlist: string;
+  schedule: string | null;
+  timezone: string | null;
+  last_bulletin_at: string | null;
+}
+
+const SUBSCRIBER_COLUMNS = 'chat_id, title, subscribed_at, last_bulletin_at, categories, watchlist, schedule, timezone';
+
+export class SubscriberService {
+  private db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  initialize(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS subscribers (
+        chat_id TEXT PRIMARY KEY,
+        title TEXT,
+        subscribed_at TEXT NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+
+    this.db.addColumnIfMissing('subscribers', 'categories', 'TEXT');
+    this.db.addColumnIfMissing('subscribers', 'watchlist', "TEXT NOT NULL DEFAULT ''");
+    this.db.addColumnIfMissing('subscribers', 'schedule', 'TEXT');
+    this.db.addColumnIfMissing('subscribers', 'timezone', 'TEXT');
+    this.db.addColumnIfMissing('subscribers', 'last_bulletin_at', 'TEXT');
+
+    this.db.save();
+    log('info', 'Subscriber table initialized');
+  }
+
+  /**
+   * Subscribes a chat the first time it is seen.
+   * A chat that has since sent /stop stays unsubscribed.
+   */
+  seed(chatId: string): void {
+    this.db.run(
+      'INSERT OR IGNORE INTO subscribers (chat_id, title, subscribed_at, active) VALUES (?, NULL, ?, 1)',
+      [chatId, new Date().toISOString()]
+    );
+    this.db.save();
+  }
+
+  /** Returns false if the chat was already subscribed */
+  subscribe(chatId: string, title?: string): boolean {
+    if (this.isSubscribed(chatId)) return false;
+
+    this.db.run(
+      `INSERT INTO subscribers (chat_id, title, subscribed_at, active) VALUES (?, ?, ?, 1)
+       ON CONFLICT(chat_id) DO UPDATE SET title = excluded.title, subscribed_at = excluded.subscribed_at, active = 1`,
+      [chatId, title ?? null, new Date().toISOString()]
+    );
+    this.db.save();
+    log('info', `Chat subscribed: ${chatId}`, { title });
+    return true;
+  }
+
+  /** Returns false if the chat was not subscribed */
+  unsubscribe(chatId: string): boolean {
+    const changes = this.db.run('UPDATE subscribers SET active = 0 WHERE chat_id = ? AND active = 1', [chatId]);
+    this.db.save();
+    if (changes > 0) {
+      log('info', `Chat unsubscribed: ${chatId}`);
+    }
+    return changes > 0;
+  }
+
+  isSubscribed(chatId: string): boolean {
+    return this.db.queryValue('SELECT 1 FROM subscribers WHERE chat_id = ? AND active = 1', [chatId]) !== null;
+  }
+
+  get(chatId: string): Subscriber | null {
+    const rows = this.db.query<SubscriberRow>(
+      `SELECT ${SUBSCRIBER_COLUMNS} FROM subscribers WHERE chat_id = ? AND active = 1`,
+      [chatId]
+    );
+    return rows.length > 0 ? toSubscriber(rows[0]) : null;
+  }
+
+  getActive(): Subscriber[] {
+    return this.db.query<SubscriberRow>(
+      `SELECT ${SUBSCRIBER_COLUMNS} FROM subscribers WHERE active = 1 ORDER BY subscribed_at`
+    ).map(toSubscriber);
+  }
+
+  updatePreferences(chatId: string, changes: Partial<SubscriberPreferences>): void {
+    const assignments: string[] = [];
+    const params: Array<string | null> = [];
+
+    if (changes.categories !== undefined) {
+      assignments.push('categories = ?');
+      params.push(changes.categories ? changes.categories.join(',') : null);
+    }
+    if (changes.watchlist !== undefined) {
+      assignments.push('watchlist = ?');
+      params.push(changes.watchlist.join(','));
+    }
+    if (changes.schedule !== undefined) {
+      assignments.push('schedule = ?');
+      params.push(changes.schedule ? changes.schedule.join(',') : null);
+    }
+    if (changes.timezone !== undefined) {
+      assignments.push('timezone = ?');
+      params.push(changes.timezone);
+    }
+    if (assignments.length === 0) return;
+
+    this.db.run(`UPDATE subscribers SET ${assignments.join(', ')} WHERE chat_id = ?`, [...params, chatId]);
+    this.db.save();
+    log('info', `Preferences updated for chat ${chatId}`, { changes });
+  }
+
+  markBulletinSent(chatId: string, sentAt: Date = new Date()): void {
+    this.db.run('UPDATE subscribers SET last_bulletin_at = ? WHERE chat_id = ?', [sentAt.toISOString(), chatId]);
+    this.db.save();
+  }
+
+  countActive(): number {
+    return Number(this.db.queryValue('SELECT COUNT(*) FROM subscribers WHERE active = 1') ?? 0);
+  }
+}
+
+function toSubscriber(row: SubscriberRow): Subscriber {
+  return {
+    chatId: row.chat_id,
+    title: row.title ?? undefined,
+    subscribedAt: new Date(row.subscribed_at),
+    lastBulletinAt: row.last_bulletin_at ? new Date(row.last_bulletin_at) : undefined,
+    preferences: {
+      categories: row.categories !== null ? splitList(row.categories) : null,
+      watchlist: splitList(row.watchlist),
+      schedule: row.schedule !== null ? splitList(row.schedule) : null,
+      timezone: row.timezone,
+    },
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
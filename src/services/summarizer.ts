@@ -0,0 +1,84 @@
+import { BulletinSection, NewsCategory } from '../types/index';
+import { log, truncate } from '../utils/helpers';
+import { AIClient, StructuredOutputSchema } from './ai-client';
+
+const SYSTEM_PROMPT = `You write the briefing paragraphs of a news bulletin. For each section you receive,
+write 2-3 plain sentences summarising what happened today, using only the headlines and summaries given.
+Do not speculate, give advice or add facts that are not in the items. No markdown, no emoji.
+Record one paragraph for every section, keyed by its section id.`;
+
+const MAX_ITEMS_PER_SECTION = 10;
+const MAX_SUMMARY_LENGTH = 600;
+
+/** Optional stage that writes a short "what happened today" paragraph per bulletin section */
+export class SummarizerService {
+  private ai: AIClient;
+
+  constructor(ai: AIClient) {
+    this.ai = ai;
+  }
+
+  /**
+   * Returns a paragraph per section category, from the verified items only.
+   * Any failure yields an empty map so the bulletin falls back to headlines alone.
+   */
+  async summarizeSections(sections: BulletinSection[]): Promise<Map<NewsCategory, string>> {
+    const eligible = sections.filter(s => s.news.some(n => n.isVerified));
+    if (eligible.length === 0) return new Map();
+
+    try {
+      const categories = eligible.map(s => s.collector.category);
+      const payload = await this.ai.completeStructured(
+        SYSTEM_PROMPT, this.buildUserMessage(eligible), summarySchema(categories), 1024
+      );
+      const summaries = this.parseResponse(payload, categories);
+      log('info', `Summarized ${summaries.size}/${eligible.length} sections with ${this.ai.model.provider}`);
+      return summaries;
+    } catch (error) {
+      log('warn', 'Section summaries failed, sending headlines only', { error: String(error) });
+      return new Map();
+    }
+  }
+
+  private buildUserMessage(sections: BulletinSection[]): string {
+    return sections.map(({ collector, news }) => {
+      const items = news
+        .filter(n => n.isVerified)
+        .slice(0, MAX_ITEMS_PER_SECTION)
+        .map((n, i) => `${i + 1}. ${n.title}${n.summary ? ` — ${truncate(n.summary, 200)}` : ''} (${n.source})`)
+        .join('\n');
+      return `Section id: ${collector.category} (${collector.title})\n${items}`;
+    }).join('\n\n');
+  }
+
+  /** Keeps the non-empty paragraphs of the requested sections; providers do not all enforce the schema */
+  private parseResponse(payload: unknown, categories: NewsCategory[]): Map<NewsCategory, string> {
+    if (typeof payload !== 'object' || payload === null) {
+      throw new Error('Summary response is not a JSON object');
+    }
+
+    const parsed = payload as Record<string, unknown>;
+    const summaries = new Map<NewsCategory, string>();
+    for (const category of categories) {
+      const summary = parsed[category];
+      if (typeof summary === 'string' && summary.trim()) {
+        summaries.set(category, truncate(summary.trim(), MAX_SUMMARY_LENGTH));
+      }
+    }
+    return summaries;
+  }
+}
+
+/** One required string property per section id, since the sections vary per bulletin */
+function summarySchema(categories: NewsCategory[]): StructuredOutputSchema {
+  return {
+    name: 'record_summaries',
+    description: 'Record one briefing paragraph for every bulletin section',
+    schema: {
+      type: 'object',
+      properties: Object.fromEntries(categories.map(c => [c, { type: 'string', description: `Paragraph for section ${c}` }])),
+      required: categories,
+      additionalProperties: false,
+    },
+  };
+}
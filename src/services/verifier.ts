@@ -1,8 +1,9 @@
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
-import { NewsItem, VerifiedNewsItem, AIModelConfig } from '../types/index';
-import { log, withRetry } from '../utils/helpers';
-import { TIER_1_SOURCES } from '../config';
+import {
+  NewsItem, NewsVerifier, VerifiedNewsItem, MissingVerdictPolicy, VerificationReport, VerificationBatchFailure, Verdict,
+} from '../types/index';
+import { log, withRetry, mapWithConcurrency, estimateTokens } from '../utils/helpers';
+import { getSourceTier } from '../collectors/sources';
+import { AIClient, StructuredOutputSchema } from './ai-client';
 
 const SYSTEM_PROMPT = `You are a news authenticity evaluator. For each news item, evaluate:
 1. Source Credibility (is this from a known, reputable outlet?)
@@ -10,171 +11,251 @@ const SYSTEM_PROMPT = `You are a news authenticity evaluator. For each news item
 3. Red Flags (clickbait, unverified claims, sensationalism?)
 
 Rate each item: PASS (include), UNCERTAIN (include with caveat), or FAIL (exclude).
+Record exactly one verdict for every numbered item, using its number as "index".`;
 
-Return ONLY a valid JSON array, no other text:
-[{"index": 1, "verdict": "PASS", "reason": "brief reason"}, ...]`;
-
-export class VerifierService {
-  private modelConfig: AIModelConfig;
-  private anthropicClient?: Anthropic;
-  private openaiClient?: OpenAI;
-
-  constructor(modelConfig: AIModelConfig) {
-    this.modelConfig = modelConfig;
-
-    switch (modelConfig.provider) {
-      case 'claude':
-        this.anthropicClient = new Anthropic({ apiKey: modelConfig.apiKey });
-        break;
-      case 'openai':
-        this.openaiClient = new OpenAI({ apiKey: modelConfig.apiKey });
-        break;
-      case 'grok':
-        this.openaiClient = new OpenAI({
-          apiKey: modelConfig.apiKey,
-          baseURL: modelConfig.baseUrl,
-        });
-        break;
-    }
+// Output sizing: a verdict with a brief reason is ~60 tokens in the structured reply
+const OUTPUT_TOKENS_PER_VERDICT = 60;
+const OUTPUT_TOKENS_OVERHEAD = 200;
+const MAX_OUTPUT_TOKENS = 4096;
+const MAX_ITEMS_PER_BATCH = Math.floor((MAX_OUTPUT_TOKENS - OUTPUT_TOKENS_OVERHEAD) / OUTPUT_TOKENS_PER_VERDICT);
+
+const VERDICTS: readonly Verdict[] = ['PASS', 'UNCERTAIN', 'FAIL'];
+
+interface ItemVerdict {
+  verdict: Verdict;
+  reason: string;
+}
+
+const VERDICT_SCHEMA: StructuredOutputSchema = {
+  name: 'record_verdicts',
+  description: 'Record one verification verdict for every news item',
+  schema: {
+    type: 'object',
+    properties: {
+      verdicts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: 'Number of the news item, starting at 1' },
+            verdict: { type: 'string', enum: [...VERDICTS] },
+            reason: { type: 'string', description: 'Brief reason for the verdict' },
+          },
+          required: ['index', 'verdict', 'reason'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['verdicts'],
+    additionalProperties: false,
+  },
+};
+
+export interface VerifierOptions {
+  missingVerdictPolicy: MissingVerdictPolicy;
+  batchTokenBudget: number; // Estimated prompt tokens per batch, system prompt included
+  concurrency: number;
+  fallback?: NewsVerifier; // Used for a batch every provider failed on; Tier 1 sources only when unset
+}
 
-    log('info', `Verifier initialized with provider: ${modelConfig.provider}, model: ${modelConfig.model}`);
+export class VerifierService implements NewsVerifier {
+  private providers: AIClient[];
+  private options: VerifierOptions;
+
+  /** @param providers Failover chain; each is tried in order once the previous one's retries are exhausted */
+  constructor(providers: AIClient[], options: VerifierOptions) {
+    if (providers.length === 0) throw new Error('VerifierService needs at least one AI provider');
+    this.providers = providers;
+    this.options = options;
   }
 
-  async verifyNews(items: NewsItem[]): Promise<VerifiedNewsItem[]> {
-    if (items.length === 0) return [];
-
-    try {
-      return await withRetry(
-        () => this.callAI(items),
-        2,
-        5000,
-        `${this.modelConfig.provider} verification`
-      );
-    } catch (error) {
-      log('error', `${this.modelConfig.provider} verification failed completely, using Tier 1 source fallback`, {
-        error: String(error),
-        itemCount: items.length,
+  /**
+   * Verifies items in batches sized to the token budget, a few at a time.
+   * Each batch walks the provider chain; a batch every provider fails on goes to
+   * the fallback verifier on its own and is listed in `failedBatches`.
+   */
+  async verifyNews(items: NewsItem[]): Promise<VerificationReport> {
+    if (items.length === 0) return { items: [], failedBatches: [] };
+
+    const batches = this.planBatches(items);
+    const failedBatches: VerificationBatchFailure[] = [];
+
+    const results = await mapWithConcurrency(batches, this.options.concurrency, async (indexes, b) => {
+      const batch = indexes.map(i => items[i]);
+      const errors: string[] = [];
+
+      for (const ai of this.providers) {
+        const label = `${ai.model.provider} verification batch ${b + 1}/${batches.length}`;
+        try {
+          return await withRetry(() => this.callAI(ai, batch), 2, 5000, label);
+        } catch (error) {
+          errors.push(`${ai.model.provider}: ${error}`);
+          log('error', `${label} failed completely, trying next provider`, { error: String(error) });
+        }
+      }
+
+      const fallback = this.options.fallback;
+      log('error', `Verification batch ${b + 1}/${batches.length} failed on every provider, using ${fallback ? 'offline rules' : 'Tier 1 source fallback'}`, {
+        itemCount: batch.length,
       });
-      return this.fallbackVerification(items);
-    }
+      failedBatches.push({ batch: b + 1, size: batch.length, error: errors.join('; ') });
+      return fallback
+        ? (await fallback.verifyNews(batch)).items
+        : batch.map(item => this.tier1Fallback(item, 'Excluded: verification unavailable, non-Tier 1 source'));
+    });
+
+    // Batches hold original positions, so verdicts merge back in input order
+    const verified = new Array<VerifiedNewsItem>(items.length);
+    batches.forEach((indexes, b) => indexes.forEach((itemIndex, j) => { verified[itemIndex] = results[b][j]; }));
+
+    log('info', `Verified ${items.length} items in ${batches.length} batches`, { failedBatches: failedBatches.length });
+    return { items: verified, failedBatches: failedBatches.sort((a, b) => a.batch - b.batch) };
+  }
+
+  /** Greedily groups item positions so each prompt stays within the token budget and the reply within MAX_OUTPUT_TOKENS */
+  private planBatches(items: NewsItem[]): number[][] {
+    const fixedTokens = estimateTokens(SYSTEM_PROMPT) + estimateTokens(JSON.stringify(VERDICT_SCHEMA)) + 20;
+    const batches: number[][] = [];
+    let current: number[] = [];
+    let tokens = fixedTokens;
+
+    items.forEach((item, i) => {
+      const itemTokens = estimateTokens(formatItemLine(item, current.length + 1));
+      const full = current.length >= MAX_ITEMS_PER_BATCH || tokens + itemTokens > this.options.batchTokenBudget;
+      if (current.length > 0 && full) {
+        batches.push(current);
+        current = [];
+        tokens = fixedTokens;
+      }
+      current.push(i);
+      tokens += itemTokens;
+    });
+    if (current.length > 0) batches.push(current);
+
+    return batches;
   }
 
-  private async callAI(items: NewsItem[]): Promise<VerifiedNewsItem[]> {
-    const userMessage = this.buildUserMessage(items);
-
-    let responseText: string;
-
-    switch (this.modelConfig.provider) {
-      case 'claude':
-        responseText = await this.callClaude(userMessage);
-        break;
-      case 'openai':
-      case 'grok':
-        responseText = await this.callOpenAICompatible(userMessage);
-        break;
-      default:
-        throw new Error(`Unknown AI provider: ${this.modelConfig.provider}`);
+  /**
+   * Asks for verdicts on every item, then re-asks once for any the model skipped
+   * or returned malformed. Items still without a verdict follow the missing-verdict policy.
+   */
+  private async callAI(ai: AIClient, items: NewsItem[]): Promise<VerifiedNewsItem[]> {
+    const verifiedBy = ai.model.provider;
+    const verdicts = await this.requestVerdicts(ai, items);
+
+    const missing = items.map((_, i) => i).filter(i => !verdicts.has(i));
+    if (missing.length > 0 && missing.length < items.length) {
+      log('warn', `Verification returned no valid verdict for ${missing.length}/${items.length} items, re-asking`);
+      try {
+        const repaired = await this.requestVerdicts(ai, missing.map(i => items[i]));
+        repaired.forEach((verdict, j) => verdicts.set(missing[j], verdict));
+      } catch (error) {
+        log('warn', 'Verification repair round failed', { error: String(error) });
+      }
     }
 
-    const verdicts = this.parseResponse(responseText, items.length);
+    const unresolved = items.length - verdicts.size;
+    if (unresolved > 0) {
+      log('warn', `${unresolved} items have no verdict, applying "${this.options.missingVerdictPolicy}" policy`);
+    }
 
     return items.map((item, index) => {
-      const verdict = verdicts[index];
-      if (verdict?.verdict === 'FAIL') {
-        return { ...item, isVerified: false, verificationNote: verdict.reason };
+      const verdict = verdicts.get(index);
+      if (!verdict) {
+        return this.applyMissingVerdictPolicy(item);
+      }
+      if (verdict.verdict === 'FAIL') {
+        return { ...item, isVerified: false, verificationNote: verdict.reason, verifiedBy, verdict: 'FAIL' };
       }
-      if (verdict?.verdict === 'UNCERTAIN') {
-        return { ...item, isVerified: true, verificationNote: `⚠️ Unverified: ${verdict.reason}` };
+      if (verdict.verdict === 'UNCERTAIN') {
+        return { ...item, isVerified: true, verificationNote: `⚠️ Unverified: ${verdict.reason}`, verifiedBy, verdict: 'UNCERTAIN' };
       }
-      return { ...item, isVerified: true };
+      return { ...item, isVerified: true, verifiedBy, verdict: 'PASS' };
     });
   }
 
-  private buildUserMessage(items: NewsItem[]): string {
-    const itemList = items.map((item, index) =>
-      `${index + 1}. [${item.category}] "${item.title}" (Source: ${item.source}, URL: ${item.url})`
-    ).join('\n');
+  /** Returns valid verdicts keyed by 0-based item position; throws if the reply has no usable shape */
+  private async requestVerdicts(ai: AIClient, items: NewsItem[]): Promise<Map<number, ItemVerdict>> {
+    const maxTokens = Math.min(MAX_OUTPUT_TOKENS, OUTPUT_TOKENS_OVERHEAD + items.length * OUTPUT_TOKENS_PER_VERDICT);
+    const payload = await ai.completeStructured(SYSTEM_PROMPT, this.buildUserMessage(items), VERDICT_SCHEMA, maxTokens);
+    const { verdicts, problems } = validateVerdicts(payload, items.length);
 
-    return `Evaluate these ${items.length} news items:\n\n${itemList}`;
+    if (verdicts.size === 0) {
+      throw new Error(`No valid verdicts in response: ${problems.slice(0, 3).join('; ') || 'empty verdict list'}`);
+    }
+    if (problems.length > 0) {
+      log('warn', `Verification response had ${problems.length} invalid entries`, { problems: problems.slice(0, 5) });
+    }
+    return verdicts;
   }
 
-  private async callClaude(userMessage: string): Promise<string> {
-    if (!this.anthropicClient) throw new Error('Anthropic client not initialized');
+  private buildUserMessage(items: NewsItem[]): string {
+    const itemList = items.map((item, index) => formatItemLine(item, index + 1)).join('\n');
+    return `Evaluate these ${items.length} news items:\n\n${itemList}`;
+  }
 
-    const response = await this.anthropicClient.messages.create({
-      model: this.modelConfig.model,
-      max_tokens: 2048,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: userMessage }],
-    });
+  private applyMissingVerdictPolicy(item: NewsItem): VerifiedNewsItem {
+    switch (this.options.missingVerdictPolicy) {
+      case 'pass':
+        return { ...item, isVerified: true };
+      case 'fail':
+        return { ...item, isVerified: false, verificationNote: 'Excluded: no verdict returned' };
+      case 'tier1':
+        return this.tier1Fallback(item, 'Excluded: no verdict returned, non-Tier 1 source');
+    }
+  }
 
-    return response.content
-      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-      .map(block => block.text)
-      .join('');
+  private tier1Fallback(item: NewsItem, excludedNote: string): VerifiedNewsItem {
+    const isTier1 = getSourceTier(item.source) === 1;
+    return {
+      ...item,
+      isVerified: isTier1,
+      verificationNote: isTier1 ? undefined : excludedNote,
+      verifiedBy: 'heuristic',
+    };
   }
+}
 
-  private async callOpenAICompatible(userMessage: string): Promise<string> {
-    if (!this.openaiClient) throw new Error('OpenAI client not initialized');
+function formatItemLine(item: NewsItem, position: number): string {
+  const corroboration = item.alsoCoveredBy?.length
+    ? `, also reported by: ${item.alsoCoveredBy.map(c => c.source).join(', ')}`
+    : '';
+  return `${position}. [${item.category}] "${item.title}" (Source: ${item.source}${corroboration}, URL: ${item.url})`;
+}
 
-    const response = await this.openaiClient.chat.completions.create({
-      model: this.modelConfig.model,
-      max_tokens: 2048,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: userMessage },
-      ],
-    });
+/**
+ * Checks a structured verification reply against VERDICT_SCHEMA by hand, since
+ * providers do not all enforce schemas strictly. Valid entries are keyed by
+ * 0-based item position; invalid or duplicate entries are reported in `problems`.
+ */
+export function validateVerdicts(
+  payload: unknown,
+  expectedCount: number
+): { verdicts: Map<number, ItemVerdict>; problems: string[] } {
+  const verdicts = new Map<number, ItemVerdict>();
+  const problems: string[] = [];
 
-    return response.choices[0]?.message?.content || '';
+  const entries = (payload as { verdicts?: unknown } | null)?.verdicts;
+  if (!Array.isArray(entries)) {
+    return { verdicts, problems: ['"verdicts" is not an array'] };
   }
 
-  private parseResponse(
-    text: string,
-    expectedCount: number
-  ): Array<{ verdict: string; reason: string }> {
-    try {
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        log('warn', 'Could not find JSON array in AI response');
-        return Array(expectedCount).fill({ verdict: 'PASS', reason: '' });
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-
-      const indexed = new Map<number, { verdict: string; reason: string }>();
-      for (const item of parsed) {
-        indexed.set(item.index, {
-          verdict: item.verdict || 'PASS',
-          reason: item.reason || '',
-        });
-      }
+  entries.forEach((entry, i) => {
+    const { index, verdict, reason } = (entry ?? {}) as Record<string, unknown>;
+    const normalized = typeof verdict === 'string' ? verdict.trim().toUpperCase() : verdict;
 
-      return Array.from({ length: expectedCount }, (_, i) =>
-        indexed.get(i + 1) || { verdict: 'PASS', reason: '' }
-      );
-    } catch (error) {
-      log('warn', 'Failed to parse AI verification response', {
-        error: String(error),
-        responsePreview: text.substring(0, 300),
-      });
-      return Array(expectedCount).fill({ verdict: 'PASS', reason: '' });
+    if (!Number.isInteger(index) || (index as number) < 1 || (index as number) > expectedCount) {
+      problems.push(`entry ${i}: index ${JSON.stringify(index)} is not between 1 and ${expectedCount}`);
+    } else if (!VERDICTS.includes(normalized as Verdict)) {
+      problems.push(`entry ${i}: verdict ${JSON.stringify(verdict)} is not one of ${VERDICTS.join(', ')}`);
+    } else if (reason !== undefined && typeof reason !== 'string') {
+      problems.push(`entry ${i}: reason is not a string`);
+    } else if (verdicts.has((index as number) - 1)) {
+      problems.push(`entry ${i}: duplicate verdict for item ${index}`);
+    } else {
+      verdicts.set((index as number) - 1, { verdict: normalized as Verdict, reason: (reason as string | undefined) ?? '' });
     }
-  }
+  });
 
-  private fallbackVerification(items: NewsItem[]): VerifiedNewsItem[] {
-    return items.map(item => {
-      const isTier1 = TIER_1_SOURCES.some(
-        src => item.source.toLowerCase().includes(src.toLowerCase())
-      );
-      return {
-        ...item,
-        isVerified: isTier1,
-        verificationNote: isTier1 ? undefined : 'Excluded: verification unavailable, non-Tier 1 source',
-      };
-    });
-  }
+  return { verdicts, problems };
 }
@@ -0,0 +1,84 @@
+import { WatchlistEntry } from '../types/index';
+import { AppDatabase } from './database';
+import { log } from '../utils/helpers';
+
+interface WatchlistRow {
+  symbol: string;
+  name: string;
+  news_query: string;
+  added_at: string;
+}
+
+/** Stocks tracked by the bot; each drives both quote fetching and a Google News query */
+export class WatchlistService {
+  private db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /** Creates the table, seeding it with `defaults` only when it is created */
+  initialize(defaults: WatchlistEntry[]): void {
+    const exists = this.db.queryValue(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'watchlist'"
+    ) !== null;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS watchlist (
+        symbol TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        news_query TEXT NOT NULL,
+        added_at TEXT NOT NULL
+      )
+    `);
+
+    if (!exists) {
+      for (const entry of defaults) {
+        this.add(entry);
+      }
+    }
+
+    this.db.save();
+    log('info', `Watchlist initialized with ${this.getAll().length} stocks`);
+  }
+
+  getAll(): WatchlistEntry[] {
+    return this.db.query<WatchlistRow>(
+      'SELECT symbol, name, news_query, added_at FROM watchlist ORDER BY added_at, symbol'
+    ).map(row => ({
+      symbol: row.symbol,
+      name: row.name,
+      newsQuery: row.news_query,
+      addedAt: new Date(row.added_at),
+    }));
+  }
+
+  /** Finds an entry by symbol or display name, case-insensitively */
+  find(input: string): WatchlistEntry | undefined {
+    const needle = input.trim().toUpperCase();
+    return this.getAll().find(e => e.symbol === needle || e.name.toUpperCase() === needle);
+  }
+
+  /** Returns false if the symbol is already tracked */
+  add(entry: WatchlistEntry): boolean {
+    const changes = this.db.run(
+      'INSERT OR IGNORE INTO watchlist (symbol, name, news_query, added_at) VALUES (?, ?, ?, ?)',
+      [entry.symbol, entry.name, entry.newsQuery, (entry.addedAt ?? new Date()).toISOString()]
+    );
+    this.db.save();
+    if (changes > 0) {
+      log('info', `Watchlist: added ${entry.symbol}`, { name: entry.name });
+    }
+    return changes > 0;
+  }
+
+  /** Returns false if the symbol was not tracked */
+  remove(symbol: string): boolean {
+    const changes = this.db.run('DELETE FROM watchlist WHERE symbol = ?', [symbol]);
+    this.db.save();
+    if (changes > 0) {
+      log('info', `Watchlist: removed ${symbol}`);
+    }
+    return changes > 0;
+  }
+}
@@ -0,0 +1,136 @@
+import { Bot, Context } from 'grammy';
+import { config } from '../config';
+import { WatchlistService } from '../services/watchlist';
+import { SourceReputationService, MIN_REPUTATION_VERDICTS, REPUTATION_WINDOW_DAYS } from '../services/source-reputation';
+import { getSourceTier } from '../collectors/sources';
+import { SourceReputation } from '../types/index';
+import { lookupStockSymbol } from '../services/stock-quotes';
+import { log } from '../utils/helpers';
+
+export interface AdminCommandDeps {
+  watchlist: WatchlistService;
+  reputation: SourceReputationService;
+}
+
+const DEFAULT_SOURCES_SHOWN = 5;
+const MAX_SOURCES_SHOWN = 20;
+
+/** Registers commands that change bot-wide state; only chats in config.adminChatIds may run them */
+export function registerAdminCommands(bot: Bot, { watchlist, reputation }: AdminCommandDeps): void {
+  bot.command('stocks', async (ctx) => {
+    const stocks = watchlist.getAll();
+    await ctx.reply(
+      stocks.length > 0
+        ? `📈 Tracked stocks (${stocks.length}):\n\n` +
+          stocks.map(s => `• ${s.symbol} (${s.name}) — news: "${s.newsQuery}"`).join('\n')
+        : 'No stocks are tracked. Admins can add one with /addstock SYMBOL',
+    );
+  });
+
+  bot.command('addstock', async (ctx) => {
+    if (!(await requireAdmin(ctx))) return;
+
+    const [rawSymbol, ...nameParts] = ctx.match.trim().split(/\s+/);
+    if (!rawSymbol) {
+      await ctx.reply('Usage: /addstock SYMBOL [display name]\nExample: /addstock INFY.NS Infosys');
+      return;
+    }
+
+    const symbol = rawSymbol.toUpperCase();
+    if (!/^[A-Z0-9.^=&-]{1,20}$/.test(symbol)) {
+      await ctx.reply(`"${rawSymbol}" is not a valid ticker symbol.`);
+      return;
+    }
+    if (watchlist.find(symbol)) {
+      await ctx.reply(`${symbol} is already tracked.`);
+      return;
+    }
+
+    let lookup: Awaited<ReturnType<typeof lookupStockSymbol>>;
+    try {
+      lookup = await lookupStockSymbol(symbol);
+    } catch {
+      await ctx.reply(`Could not reach Yahoo Finance to validate ${symbol}. Try again later.`);
+      return;
+    }
+    if (!lookup) {
+      await ctx.reply(`Yahoo Finance has no quote for ${symbol}. Use the exchange suffix, e.g. INFY.NS for NSE.`);
+      return;
+    }
+
+    const name = nameParts.join(' ') || lookup.name;
+    const newsQuery = `${name} stock news`;
+    watchlist.add({ symbol, name, newsQuery });
+    log('info', `Admin ${ctx.from?.id} added ${symbol} to the watchlist`);
+
+    await ctx.reply(`✅ Now tracking ${symbol} (${name}, ${lookup.currency}).\nNews query: "${newsQuery}"`);
+  });
+
+  bot.command('removestock', async (ctx) => {
+    if (!(await requireAdmin(ctx))) return;
+
+    const input = ctx.match.trim();
+    if (!input) {
+      await ctx.reply('Usage: /removestock SYMBOL');
+      return;
+    }
+
+    const stock = watchlist.find(input);
+    if (!stock || !watchlist.remove(stock.symbol)) {
+      await ctx.reply(`"${input}" is not tracked. Send /stocks to see the list.`);
+      return;
+    }
+    log('info', `Admin ${ctx.from?.id} removed ${stock.symbol} from the watchlist`);
+
+    await ctx.reply(`✅ Stopped tracking ${stock.symbol} (${stock.name}).`);
+  });
+
+  bot.command('sources', async (ctx) => {
+    if (!(await requireAdmin(ctx))) return;
+
+    const input = ctx.match.trim();
+    const limit = input ? Number(input) : DEFAULT_SOURCES_SHOWN;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SOURCES_SHOWN) {
+      await ctx.reply(`Usage: /sources [count]\nShows the most and least reliable sources, 1-${MAX_SOURCES_SHOWN} of each (default ${DEFAULT_SOURCES_SHOWN}).`);
+      return;
+    }
+
+    const ranked = reputation.getRanked();
+    const sparse = reputation.count() - ranked.length;
+    const sparseNote = sparse > 0 ? `\n\n${sparse} more sources have fewer than ${MIN_REPUTATION_VERDICTS} verdicts.` : '';
+    if (ranked.length === 0) {
+      await ctx.reply(`No source has ${MIN_REPUTATION_VERDICTS} AI verdicts in the last ${REPUTATION_WINDOW_DAYS} days yet.${sparseNote}`);
+      return;
+    }
+
+    const best = ranked.slice(0, limit);
+    // Sources already listed as best are not repeated when there are few
+    const worst = ranked.slice(Math.max(limit, ranked.length - limit)).reverse();
+    const lines = [
+      `📰 Source reputation, last ${REPUTATION_WINDOW_DAYS} days (${ranked.length} sources)`,
+      ``,
+      `🏆 Most reliable:`,
+      ...best.map(formatReputation),
+    ];
+    if (worst.length > 0) {
+      lines.push(``, `⚠️ Least reliable:`, ...worst.map(formatReputation));
+    }
+
+    await ctx.reply(lines.join('\n') + sparseNote);
+  });
+}
+
+function formatReputation(r: SourceReputation): string {
+  return `• ${r.source} — ${Math.round(r.score * 100)}% (✅ ${r.pass} ⚠️ ${r.uncertain} ❌ ${r.fail}), tier ${getSourceTier(r.source)}`;
+}
+
+export function isAdmin(ctx: Context): boolean {
+  const ids = [ctx.chat?.id, ctx.from?.id].filter(id => id !== undefined).map(String);
+  return ids.some(id => config.adminChatIds.includes(id));
+}
+
+async function requireAdmin(ctx: Context): Promise<boolean> {
+  if (isAdmin(ctx)) return true;
+  await ctx.reply('⛔ This command is only available to bot admins.');
+  return false;
+}
@@ -0,0 +1,210 @@
+import { Bot, Context } from 'grammy';
+import { config } from '../config';
+import { getCollectors } from '../collectors/index';
+import { SubscriberService } from '../services/subscribers';
+import { WatchlistService } from '../services/watchlist';
+import { Subscriber } from '../types/index';
+import { isValidTimeZone, parseTimeList } from '../utils/helpers';
+
+/** Registers /start, /stop and the per-chat preference commands */
+export function registerSubscriberCommands(bot: Bot, subscribers: SubscriberService, watchlist: WatchlistService): void {
+  bot.command('start', async (ctx) => {
+    const chatId = String(ctx.chat.id);
+    const title = 'title' in ctx.chat ? ctx.chat.title : ctx.from?.username ?? ctx.from?.first_name;
+    const added = subscribers.subscribe(chatId, title);
+    const subscriber = subscribers.get(chatId);
+
+    await ctx.reply(
+      added && subscriber
+        ? `✅ Subscribed! This chat will receive the News Pulse bulletin at ${describeSchedule(subscriber)}.\nSend /settings to customise it or /stop to unsubscribe.`
+        : 'This chat is already subscribed. Send /stop to unsubscribe.',
+    );
+  });
+
+  bot.command('stop', async (ctx) => {
+    const removed = subscribers.unsubscribe(String(ctx.chat.id));
+    await ctx.reply(
+      removed
+        ? '👋 Unsubscribed. Send /start to subscribe again.'
+        : 'This chat is not subscribed. Send /start to subscribe.',
+    );
+  });
+
+  bot.command('settings', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const { categories, watchlist } = subscriber.preferences;
+    await ctx.reply(
+      [
+        `⚙️ Settings for this chat`,
+        ``,
+        `📂 Categories: ${categories ? categories.join(', ') : 'all'}`,
+        `👀 Watchlist: ${watchlist.length > 0 ? watchlist.join(', ') : 'all tracked stocks'}`,
+        `⏰ Schedule: ${describeSchedule(subscriber)}`,
+        ``,
+        `Change with /categories, /watch, /unwatch, /schedule and /timezone.`,
+      ].join('\n'),
+    );
+  });
+
+  bot.command('categories', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const available = getCollectors().map(c => c.category);
+    const input = ctx.match.trim().toLowerCase();
+
+    if (!input) {
+      const current = subscriber.preferences.categories;
+      await ctx.reply(
+        `📂 Current categories: ${current ? current.join(', ') : 'all'}\n` +
+        `Available: ${available.join(', ')}\n\n` +
+        `Usage: /categories crypto,geopolitical or /categories all`,
+      );
+      return;
+    }
+
+    if (input === 'all') {
+      subscribers.updatePreferences(subscriber.chatId, { categories: null });
+      await ctx.reply('✅ This chat will receive all categories.');
+      return;
+    }
+
+    const requested = Array.from(new Set(input.split(/[\s,]+/).filter(Boolean)));
+    const unknown = requested.filter(c => !available.includes(c));
+    if (unknown.length > 0) {
+      await ctx.reply(`Unknown categories: ${unknown.join(', ')}\nAvailable: ${available.join(', ')}`);
+      return;
+    }
+
+    subscribers.updatePreferences(subscriber.chatId, { categories: requested });
+    await ctx.reply(`✅ Categories set to: ${requested.join(', ')}`);
+  });
+
+  bot.command('watch', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const input = ctx.match.trim();
+    const trackedList = watchlist.getAll().map(s => `${s.symbol} (${s.name})`).join(', ');
+    if (!input) {
+      const watched = subscriber.preferences.watchlist;
+      await ctx.reply(
+        `👀 Watchlist: ${watched.length > 0 ? watched.join(', ') : 'all tracked stocks'}\n` +
+        `Tracked stocks: ${trackedList}\n\n` +
+        `Usage: /watch TCS.NS`,
+      );
+      return;
+    }
+
+    const stock = watchlist.find(input);
+    if (!stock) {
+      await ctx.reply(`"${input}" is not a tracked stock.\nTracked stocks: ${trackedList}`);
+      return;
+    }
+
+    const watched = subscriber.preferences.watchlist;
+    if (!watched.includes(stock.symbol)) {
+      subscribers.updatePreferences(subscriber.chatId, { watchlist: [...watched, stock.symbol] });
+    }
+    await ctx.reply(`✅ Watching ${stock.symbol}. Only watched stocks are shown in the market section.`);
+  });
+
+  bot.command('unwatch', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const input = ctx.match.trim();
+    if (!input) {
+      await ctx.reply('Usage: /unwatch TCS.NS or /unwatch all');
+      return;
+    }
+
+    if (input.toLowerCase() === 'all') {
+      subscribers.updatePreferences(subscriber.chatId, { watchlist: [] });
+      await ctx.reply('✅ Watchlist cleared. All tracked stocks will be shown.');
+      return;
+    }
+
+    const symbol = watchlist.find(input)?.symbol ?? input.toUpperCase();
+    const watched = subscriber.preferences.watchlist;
+    if (!watched.includes(symbol)) {
+      await ctx.reply(`${symbol} is not on this chat's watchlist.`);
+      return;
+    }
+
+    subscribers.updatePreferences(subscriber.chatId, { watchlist: watched.filter(s => s !== symbol) });
+    await ctx.reply(`✅ Stopped watching ${symbol}.`);
+  });
+
+  bot.command('schedule', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const input = ctx.match.trim();
+    if (!input) {
+      await ctx.reply(
+        `⏰ Schedule: ${describeSchedule(subscriber)}\n\n` +
+        `Usage: /schedule 08:30,18:00 or /schedule default`,
+      );
+      return;
+    }
+
+    if (input.toLowerCase() === 'default') {
+      subscribers.updatePreferences(subscriber.chatId, { schedule: null });
+      await ctx.reply(`✅ Schedule reset to ${config.defaultSchedule.join(', ')}.`);
+      return;
+    }
+
+    const times = parseTimeList(input);
+    if (!times) {
+      await ctx.reply('Invalid times. Use 24h HH:MM separated by commas, e.g. /schedule 08:30,18:00');
+      return;
+    }
+
+    subscribers.updatePreferences(subscriber.chatId, { schedule: times });
+    await ctx.reply(`✅ Bulletins will be sent at ${times.join(', ')} (${subscriber.preferences.timezone ?? config.timezone}).`);
+  });
+
+  bot.command('timezone', async (ctx) => {
+    const subscriber = await requireSubscriber(ctx, subscribers);
+    if (!subscriber) return;
+
+    const input = ctx.match.trim();
+    if (!input) {
+      await ctx.reply(
+        `🌐 Time zone: ${subscriber.preferences.timezone ?? config.timezone}\n\n` +
+        `Usage: /timezone Europe/London or /timezone default`,
+      );
+      return;
+    }
+
+    if (input.toLowerCase() === 'default') {
+      subscribers.updatePreferences(subscriber.chatId, { timezone: null });
+      await ctx.reply(`✅ Time zone reset to ${config.timezone}.`);
+      return;
+    }
+
+    if (!isValidTimeZone(input)) {
+      await ctx.reply(`"${input}" is not a valid IANA time zone (e.g. Asia/Kolkata, Europe/London).`);
+      return;
+    }
+
+    subscribers.updatePreferences(subscriber.chatId, { timezone: input });
+    await ctx.reply(`✅ Time zone set to ${input}.`);
+  });
+}
+
+export function describeSchedule(subscriber: Subscriber): string {
+  const times = subscriber.preferences.schedule ?? config.defaultSchedule;
+  return `${times.join(', ')} (${subscriber.preferences.timezone ?? config.timezone})`;
+}
+
+async function requireSubscriber(ctx: Context, subscribers: SubscriberService): Promise<Subscriber | null> {
+  const subscriber = ctx.chat ? subscribers.get(String(ctx.chat.id)) : null;
+  if (!subscriber) {
+    await ctx.reply('This chat is not subscribed. Send /start first.');
+  }
+  return subscriber;
+}
@@ -0,0 +1,183 @@
+import { Bot } from 'grammy';
+import { config } from '../config';
+import { WatchlistService } from '../services/watchlist';
+import { PriceHistoryService } from '../services/price-history';
+import { AlertService, describeAlertRule, getAlertMarket } from '../services/alerts';
+import { getExchange } from '../services/market-status';
+import { AlertCondition, PricePoint, QuoteProvider } from '../types/index';
+import { formatPrice, formatSignedPercent, sparkline } from '../utils/helpers';
+
+export interface MarketCommandDeps {
+  watchlist: WatchlistService;
+  priceHistory: PriceHistoryService;
+  alerts: AlertService;
+  quotes: QuoteProvider;
+}
+
+const MAX_HISTORY_DAYS = 400;
+const SPARKLINE_WIDTH = 30;
+const MAX_ALERTS_PER_CHAT = 20;
+
+const ALERT_USAGE = [
+  'Usage:',
+  '/alert SYMBOL above PRICE',
+  '/alert SYMBOL below PRICE',
+  '/alert SYMBOL change PERCENT%',
+  'Add "repeat" to keep the alert after it fires.',
+  'Examples: /alert TCS.NS above 4200, /alert BTC change 5% repeat',
+].join('\n');
+
+/** Registers market data and price alert commands available to every chat */
+export function registerMarketCommands(bot: Bot, { watchlist, priceHistory, alerts, quotes }: MarketCommandDeps): void {
+  bot.command('history', async (ctx) => {
+    const [rawSymbol, rawPeriod = '30d'] = ctx.match.trim().split(/\s+/);
+    if (!rawSymbol) {
+      await ctx.reply('Usage: /history SYMBOL [period]\nExamples: /history TCS 30d, /history BTC 2w, /history HUL 3m');
+      return;
+    }
+
+    const days = parsePeriodDays(rawPeriod);
+    if (!days) {
+      await ctx.reply(`Invalid period "${rawPeriod}". Use e.g. 7d, 2w or 3m (max ${MAX_HISTORY_DAYS} days).`);
+      return;
+    }
+
+    const symbol = resolveSymbol(rawSymbol, watchlist);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const snapshots = priceHistory.getHistory(symbol, since);
+    if (snapshots.length === 0) {
+      await ctx.reply(`No price history for ${symbol} in the last ${days} days.`);
+      return;
+    }
+
+    const prices = snapshots.map(s => s.price);
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const currency = last.currency;
+    const change = first.price > 0 ? ((last.price - first.price) / first.price) * 100 : 0;
+
+    await ctx.reply(
+      [
+        `📈 ${symbol} — last ${days} days`,
+        ``,
+        sparkline(downsample(prices, SPARKLINE_WIDTH)),
+        ``,
+        `Start: ${formatPrice(first.price, currency)} (${first.capturedAt.toISOString().slice(0, 10)})`,
+        `Now: ${formatPrice(last.price, currency)} (${formatSignedPercent(change)})`,
+        `Low: ${formatPrice(Math.min(...prices), currency)} · High: ${formatPrice(Math.max(...prices), currency)}`,
+        `Snapshots: ${snapshots.length}`,
+      ].join('\n'),
+    );
+  });
+
+  bot.command('alert', async (ctx) => {
+    const chatId = String(ctx.chat.id);
+    const [rawSymbol, rawCondition, rawThreshold, ...flags] = ctx.match.trim().split(/\s+/);
+    const condition = rawCondition?.toLowerCase() as AlertCondition | undefined;
+    if (!rawSymbol || !rawThreshold || !condition || !['above', 'below', 'change'].includes(condition)) {
+      await ctx.reply(ALERT_USAGE);
+      return;
+    }
+
+    const threshold = Number(rawThreshold.replace(/[%,]/g, ''));
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      await ctx.reply(`"${rawThreshold}" is not a positive number.\n\n${ALERT_USAGE}`);
+      return;
+    }
+
+    const repeat = flags.some(f => f.toLowerCase() === 'repeat');
+    if (alerts.countForChat(chatId) >= MAX_ALERTS_PER_CHAT) {
+      await ctx.reply(`This chat already has ${MAX_ALERTS_PER_CHAT} alerts. Remove some with /unalert first.`);
+      return;
+    }
+
+    const instrument = resolveInstrument(rawSymbol, watchlist);
+    let current: PricePoint | undefined;
+    try {
+      current = (await quotes.getPrices([instrument])).find(p => p.symbol === instrument.symbol);
+    } catch {
+      await ctx.reply(`Could not fetch a price for ${instrument.symbol}. Try again later.`);
+      return;
+    }
+    if (!current || current.price <= 0) {
+      await ctx.reply(`No price found for ${instrument.symbol}. Use a Yahoo ticker (e.g. INFY.NS) or a tracked coin (${config.cryptoCoins.map(c => c.symbol).join(', ')}).`);
+      return;
+    }
+
+    const alert = { chatId, ...instrument, condition, threshold, repeat, referencePrice: current.price };
+    const id = alerts.add(alert);
+    const market = getAlertMarket(instrument);
+    const marketNote = market ? `\n${getExchange(market).name} alerts are only checked while the market is open.` : '';
+
+    await ctx.reply(
+      `🔔 Alert #${id}: ${instrument.symbol} ${describeAlertRule(alert, current.currency)}\n` +
+      `Current price: ${formatPrice(current.price, current.currency)}` + marketNote,
+    );
+  });
+
+  bot.command('alerts', async (ctx) => {
+    const chatAlerts = alerts.getForChat(String(ctx.chat.id));
+    if (chatAlerts.length === 0) {
+      await ctx.reply(`No alerts set for this chat.\n\n${ALERT_USAGE}`);
+      return;
+    }
+
+    await ctx.reply(
+      `🔔 Alerts (${chatAlerts.length}):\n\n` +
+      chatAlerts.map(a => `#${a.id} ${a.symbol} ${describeAlertRule(a)}${a.armed ? '' : ' — fired, waiting to re-arm'}`).join('\n') +
+      `\n\nRemove with /unalert ID or /unalert all`,
+    );
+  });
+
+  bot.command('unalert', async (ctx) => {
+    const chatId = String(ctx.chat.id);
+    const input = ctx.match.trim().replace(/^#/, '');
+    if (!input) {
+      await ctx.reply('Usage: /unalert ID or /unalert all');
+      return;
+    }
+
+    if (input.toLowerCase() === 'all') {
+      const removed = alerts.removeAllForChat(chatId);
+      await ctx.reply(`✅ Removed ${removed} alerts.`);
+      return;
+    }
+
+    const id = Number(input);
+    if (!Number.isInteger(id) || !alerts.remove(id, chatId)) {
+      await ctx.reply(`No alert #${input} in this chat. Send /alerts to see them.`);
+      return;
+    }
+    await ctx.reply(`✅ Alert #${id} removed.`);
+  });
+}
+
+/** Accepts a watchlist symbol or name, or a tracked coin symbol */
+export function resolveSymbol(input: string, watchlist: WatchlistService): string {
+  return resolveInstrument(input, watchlist).symbol;
+}
+
+/** Like resolveSymbol, but also tells stocks from configured coins; anything else is treated as a Yahoo ticker */
+export function resolveInstrument(input: string, watchlist: WatchlistService): Pick<PricePoint, 'symbol' | 'kind'> {
+  const stock = watchlist.find(input);
+  if (stock) return { symbol: stock.symbol, kind: 'stock' };
+
+  const upper = input.toUpperCase();
+  const coin = config.cryptoCoins.find(c => c.symbol === upper || c.id.toUpperCase() === upper);
+  return coin ? { symbol: coin.symbol, kind: 'crypto' } : { symbol: upper, kind: 'stock' };
+}
+
+function parsePeriodDays(input: string): number | null {
+  const match = input.toLowerCase().match(/^(\d+)\s*([dwm]?)$/);
+  if (!match) return null;
+  const multiplier = match[2] === 'w' ? 7 : match[2] === 'm' ? 30 : 1;
+  const days = Number(match[1]) * multiplier;
+  return days > 0 && days <= MAX_HISTORY_DAYS ? days : null;
+}
+
+/** Keeps at most `width` evenly spaced values, always including the last one */
+function downsample(values: number[], width: number): number[] {
+  if (values.length <= width) return values;
+  const step = (values.length - 1) / (width - 1);
+  return Array.from({ length: width }, (_, i) => values[Math.round(i * step)]);
+}
@@ -1,8 +1,29 @@
-import { Bot } from 'grammy';
-import { VerifiedNewsItem, StockQuote, CryptoPrice, MarketStatus } from '../types/index';
-import { escapeHtml, log, sleep, formatISTDate, formatISTTime, truncate } from '../utils/helpers';
+import { Bot, GrammyError } from 'grammy';
+import {
+  VerifiedNewsItem, VerifiedBy, BulletinSection, BulletinDelivery, BroadcastResult, BulletinBroadcastResult,
+  SectionRenderContext, Digest,
+} from '../types/index';
+import { config } from '../config';
+import { escapeHtml, log, sleep, truncate, formatPrice, formatSignedPercent } from '../utils/helpers';
+import { formatLocalDate, formatLocalTime, getZoneLabel } from '../utils/time';
+import { rankNews, RankingContext } from '../services/ranking';
+import { describeMarketsNow } from '../services/market-status';
+import { pickBiggestMovers } from '../services/digest';
 
 const TELEGRAM_MAX_LENGTH = 4096;
+const SECTION_DIVIDER = '━━━━━━━━━━━━━━━━━━━━━━━━';
+const MESSAGE_SEND_INTERVAL_MS = 500;  // Between messages to the same chat
+const CHAT_SEND_INTERVAL_MS = 1000;    // Between chats, well under the ~30 msg/s global limit
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const VERIFIER_NAMES: Record<VerifiedBy, string> = {
+  claude: 'Claude',
+  openai: 'OpenAI',
+  grok: 'Grok',
+  'openai-compatible': 'self-hosted model',
+  rules: 'offline rules',
+  heuristic: 'source tiers (AI unavailable)',
+};
 
 export class TelegramSender {
   private bot: Bot;
@@ -17,48 +38,29 @@ export class TelegramSender {
     return this.bot;
   }
 
-  async sendNewsBulletin(
-    cryptoPrice: CryptoPrice,
-    cryptoNews: VerifiedNewsItem[],
-    stockQuotes: StockQuote[],
-    stockNews: VerifiedNewsItem[],
-    geopoliticalNews: VerifiedNewsItem[],
-    marketStatus: MarketStatus,
-    errors: string[]
-  ): Promise<void> {
-    const header = this.buildHeader();
-    const cryptoSection = this.buildCryptoSection(cryptoPrice, cryptoNews);
-    const stockSection = this.buildStockSection(stockQuotes, stockNews, marketStatus);
-    const geoSection = this.buildGeopoliticalSection(geopoliticalNews);
-    const footer = this.buildFooter();
-
-    const fullMessage = [header, cryptoSection, stockSection, geoSection, footer].join('\n\n');
-
-    if (fullMessage.length <= TELEGRAM_MAX_LENGTH) {
-      await this.sendHtml(fullMessage);
-    } else {
-      // Send each section separately
-      const sections = [
-        header + '\n\n' + cryptoSection,
-        stockSection,
-        geoSection + '\n\n' + footer,
-      ];
-      for (const section of sections) {
-        if (section.trim()) {
-          if (section.length <= TELEGRAM_MAX_LENGTH) {
-            await this.sendHtml(section);
-          } else {
-            const chunks = this.splitAtLines(section);
-            for (const chunk of chunks) {
-              await this.sendHtml(chunk);
-              await sleep(500);
-            }
-          }
-          await sleep(500);
-        }
-      }
-    }
+  /**
+   * Sends each chat its own rendering of the bulletin in turn, pacing messages to stay
+   * under Telegram's per-chat and global rate limits. One failing chat never stops the rest.
+   * Reports which items each delivered chat was shown, so only those count as delivered.
+   */
+  async sendNewsBulletin(deliveries: BulletinDelivery[], errors: string[]): Promise<BulletinBroadcastResult> {
+    // Each section's items are picked once, so what is reported is exactly what was rendered
+    const rendered = deliveries.map(({ chatId, sections, context }) => ({
+      chatId,
+      sections,
+      context,
+      shown: sections.map(s => pickTopNews(s.news, s.collector.maxItems, toRankingContext(context))),
+    }));
+    const broadcast = await this.broadcast(rendered.map(({ chatId, sections, context, shown }) => ({
+      chatId,
+      messages: this.buildBulletinMessages(sections, shown, context),
+    })));
+    const result: BulletinBroadcastResult = {
+      ...broadcast,
+      shown: new Map(rendered.filter(r => broadcast.delivered.includes(r.chatId)).map(r => [r.chatId, r.shown.flat()])),
+    };
 
+    // Source problems are operational detail, so only the admin chat hears about them
     if (errors.length > 0) {
       try {
         await this.sendHtml(`<i>Note: ${errors.length} data source(s) had issues.</i>`);
@@ -67,84 +69,189 @@ export class TelegramSender {
       }
     }
 
-    log('info', 'News bulletin sent successfully');
+    log('info', `News bulletin sent to ${result.delivered.length}/${deliveries.length} chats`, {
+      unreachable: result.unreachable.length,
+      failed: result.failed.length,
+    });
+    return result;
   }
 
-  private buildHeader(): string {
-    const date = formatISTDate();
-    const time = formatISTTime();
-    return `📰 <b>NEWS PULSE</b> | ${escapeHtml(date)} | ${escapeHtml(time)} IST\n━━━━━━━━━━━━━━━━━━━━━━━━`;
+  /** Pushes high-importance stories between bulletins, paced like sendNewsBulletin */
+  async sendBreakingNews(
+    deliveries: Array<{ chatId: string; timeZone: string; items: VerifiedNewsItem[] }>
+  ): Promise<BroadcastResult> {
+    const result = await this.broadcast(deliveries.map(({ chatId, timeZone, items }) => ({
+      chatId,
+      messages: [this.buildBreakingMessage(items, timeZone)],
+    })));
+
+    log('info', `Breaking news sent to ${result.delivered.length}/${deliveries.length} chats`, {
+      unreachable: result.unreachable.length,
+      failed: result.failed.length,
+    });
+    return result;
   }
 
-  private buildCryptoSection(price: CryptoPrice, news: VerifiedNewsItem[]): string {
-    const verified = news.filter(n => n.isVerified);
-    const priceStr = price.priceUsd > 0
-      ? `$${price.priceUsd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
-      : 'N/A';
-    const inrStr = price.priceInr
-      ? ` (₹${price.priceInr.toLocaleString('en-IN')})`
-      : '';
+  /** Sends each chat its tailored weekly or monthly digest, paced like sendNewsBulletin */
+  async sendDigest(deliveries: Array<{ chatId: string; digest: Digest }>): Promise<BroadcastResult> {
+    const result = await this.broadcast(deliveries.map(({ chatId, digest }) => {
+      const message = this.buildDigestMessage(digest);
+      return { chatId, messages: message.length <= TELEGRAM_MAX_LENGTH ? [message] : this.splitAtLines(message) };
+    }));
+
+    log('info', `Digest sent to ${result.delivered.length}/${deliveries.length} chats`, {
+      unreachable: result.unreachable.length,
+      failed: result.failed.length,
+    });
+    return result;
+  }
 
-    let html = `🪙 <b>CRYPTO</b>\n\n`;
-    html += `💰 <b>BTC:</b> ${priceStr}${inrStr}\n\n`;
+  private async broadcast(outgoing: Array<{ chatId: string; messages: string[] }>): Promise<BroadcastResult> {
+    const result: BroadcastResult = { delivered: [], unreachable: [], failed: [] };
 
-    if (verified.length > 0) {
-      html += this.formatNewsList(verified.slice(0, 5));
-    } else {
-      html += '<i>No verified crypto news available.</i>';
+    for (const [i, { chatId, messages }] of outgoing.entries()) {
+      if (i > 0) await sleep(CHAT_SEND_INTERVAL_MS);
+      try {
+        for (const message of messages) {
+          await this.sendHtml(message, chatId);
+          if (messages.length > 1) await sleep(MESSAGE_SEND_INTERVAL_MS);
+        }
+        result.delivered.push(chatId);
+      } catch (error) {
+        if (isChatUnreachable(error)) {
+          result.unreachable.push(chatId);
+          log('warn', `Chat ${chatId} is unreachable`, { error: String(error) });
+        } else {
+          result.failed.push(chatId);
+          log('error', `Failed to send to chat ${chatId}`, { error: String(error) });
+        }
+      }
     }
 
-    return html;
+    return result;
   }
 
-  private buildStockSection(quotes: StockQuote[], news: VerifiedNewsItem[], marketStatus: MarketStatus): string {
-    const verified = news.filter(n => n.isVerified);
+  /** `shown` holds the items picked for each section, in section order */
+  private buildBulletinMessages(sections: BulletinSection[], shown: VerifiedNewsItem[][], context: SectionRenderContext): string[] {
+    const header = this.buildHeader(context.timeZone);
+    const bodies = sections.map((section, i) => this.buildSection(section, shown[i], context, i === 0));
+    const footer = this.buildFooter(shown.flat());
 
-    let html = `━━━━━━━━━━━━━━━━━━━━━━━━\n🇮🇳 <b>INDIAN MARKET</b>\n\n`;
+    const fullMessage = [header, ...bodies, footer].join('\n\n');
+    if (fullMessage.length <= TELEGRAM_MAX_LENGTH || bodies.length === 0) {
+      return [fullMessage];
+    }
 
-    const statusEmoji = marketStatus.isOpen ? '🟢' : '🔴';
-    html += `📊 ${statusEmoji} <i>${escapeHtml(marketStatus.nextOpenDescription)}</i>\n\n`;
+    // Split into one message per section, header with the first and footer with the last
+    const parts = [...bodies];
+    parts[0] = header + '\n\n' + parts[0];
+    parts[parts.length - 1] += '\n\n' + footer;
 
-    if (quotes.length > 0) {
-      for (const q of quotes) {
-        const changeSign = q.change >= 0 ? '+' : '';
-        const emoji = q.change >= 0 ? '🟢' : '🔴';
-        html += `${emoji} <b>${escapeHtml(q.name)}</b>: ₹${q.price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${changeSign}${q.changePercent.toFixed(2)}%)\n`;
-      }
-      html += '\n';
+    return parts
+      .filter(part => part.trim())
+      .flatMap(part => part.length <= TELEGRAM_MAX_LENGTH ? [part] : this.splitAtLines(part));
+  }
+
+  /** Date and time in the chat's own zone, e.g. '📰 NEWS PULSE | 19 Oct 2026 | 08:00 pm BST' */
+  private buildHeader(timeZone: string): string {
+    const now = new Date();
+    const date = formatLocalDate(timeZone, now);
+    const time = `${formatLocalTime(timeZone, now)} ${getZoneLabel(timeZone, now)}`;
+    const markets = describeMarketsNow(now);
+    return `📰 <b>NEWS PULSE</b> | ${escapeHtml(date)} | ${escapeHtml(time)}\n${escapeHtml(markets)}\n${SECTION_DIVIDER}`;
+  }
+
+  private buildSection(
+    { collector, result, summary }: BulletinSection,
+    shown: VerifiedNewsItem[],
+    context: SectionRenderContext,
+    isFirst: boolean
+  ): string {
+    // The header already ends with a divider, so only later sections need one
+    let html = isFirst ? '' : `${SECTION_DIVIDER}\n`;
+    html += `${collector.emoji} <b>${escapeHtml(collector.title)}</b>\n\n`;
+
+    if (summary && shown.length > 0) {
+      html += `<i>${escapeHtml(summary)}</i>\n\n`;
     }
 
-    if (verified.length > 0) {
-      html += this.formatNewsList(verified.slice(0, 10));
-    } else if (!marketStatus.isWeekend) {
-      html += '<i>No verified market news available.</i>';
+    if (collector.renderOverview) {
+      html += collector.renderOverview(result, context, shown);
+    }
+
+    // Headlines the overview already placed (e.g. under their quote) are not listed again
+    const inline = new Set(collector.overviewNews?.(result, context, shown) ?? []);
+    const listed = shown.filter(n => !inline.has(n));
+
+    if (listed.length > 0) {
+      html += this.formatNewsList(listed);
+    } else if (shown.length === 0) {
+      const emptyMessage = collector.emptyMessage(result);
+      if (emptyMessage) {
+        html += `<i>${escapeHtml(emptyMessage)}</i>`;
+      }
     }
 
     return html;
   }
 
-  private buildGeopoliticalSection(news: VerifiedNewsItem[]): string {
-    const verified = news.filter(n => n.isVerified);
+  /** Dates are in config.timezone, which the digest period is measured in */
+  private buildDigestMessage({ period, from, to, sections, performance }: Digest): string {
+    const title = period === 'weekly' ? 'WEEKLY DIGEST' : 'MONTHLY DIGEST';
+    const range = `${formatLocalDate(config.timezone, from)} – ${formatLocalDate(config.timezone, to)}`;
+    const parts = [`🗓️ <b>${title}</b> | ${escapeHtml(range)}\n${SECTION_DIVIDER}`];
 
-    let html = `━━━━━━━━━━━━━━━━━━━━━━━━\n🌍 <b>GLOBAL NEWS</b>\n\n`;
+    if (performance.length > 0) {
+      let html = `📈 <b>${period === 'weekly' ? 'THIS WEEK' : 'THIS MONTH'}</b>\n\n`;
+      html += performance.map(p => {
+        const emoji = p.changePercent >= 0 ? '🟢' : '🔴';
+        return `${emoji} <b>${escapeHtml(p.name)}</b>: ${escapeHtml(formatPrice(p.price, p.currency))} (${formatSignedPercent(p.changePercent)})`;
+      }).join('\n');
 
-    if (verified.length > 0) {
-      html += this.formatNewsList(verified.slice(0, 5));
-    } else {
-      html += '<i>No verified geopolitical news available.</i>';
+      // Only worth a line when it picks out a few of many
+      const movers = pickBiggestMovers(performance);
+      if (movers.length > 0 && movers.length < performance.length) {
+        html += `\n\n🚀 Biggest movers: ${movers.map(p => `${escapeHtml(p.name)} ${formatSignedPercent(p.changePercent)}`).join(', ')}`;
+      }
+      parts.push(html);
     }
 
-    return html;
+    for (const { title: sectionTitle, emoji, stories } of sections.filter(s => s.stories.length > 0)) {
+      const list = stories.map((story, i) => {
+        const coverage = story.coverage > 1 ? ` · ${story.coverage} outlets` : '';
+        return `${i + 1}. <a href="${escapeHtml(story.url)}">${escapeHtml(truncate(story.title, 150))}</a>\n   <i>${escapeHtml(story.source + coverage)}</i>`;
+      }).join('\n\n');
+      parts.push(`${SECTION_DIVIDER}\n${emoji} <b>${escapeHtml(sectionTitle)}</b>\n\n${list}`);
+    }
+
+    if (parts.length === 1) {
+      parts.push('<i>No verified stories or price history for this period yet.</i>');
+    }
+    return parts.join('\n\n');
+  }
+
+  private buildBreakingMessage(items: VerifiedNewsItem[], timeZone: string): string {
+    const time = `${formatLocalTime(timeZone)} ${getZoneLabel(timeZone)}`;
+    return `🚨 <b>BREAKING</b> | ${escapeHtml(time)}\n${SECTION_DIVIDER}\n\n${this.formatNewsList(rankNews(items))}`;
   }
 
-  private buildFooter(): string {
-    return `━━━━━━━━━━━━━━━━━━━━━━━━\n⏱️ ~5 min read | Verified by AI`;
+  /** Names whichever verifiers produced the items actually shown, e.g. "Verified by Claude, OpenAI" */
+  private buildFooter(shown: VerifiedNewsItem[]): string {
+    const verifiers = Array.from(new Set(shown.map(n => n.verifiedBy).filter(v => v !== undefined)));
+    const verifiedBy = verifiers.length > 0
+      ? ` | Verified by ${verifiers.map(v => VERIFIER_NAMES[v]).join(', ')}`
+      : '';
+    return `${SECTION_DIVIDER}\n⏱️ ~5 min read${verifiedBy}`;
   }
 
+  /** Lists the items in the order given; callers pick and rank them */
   private formatNewsList(items: VerifiedNewsItem[]): string {
     return items.map((item, i) => {
       const title = escapeHtml(truncate(item.title, 150));
-      const source = escapeHtml(item.source);
+      const coverage = item.alsoCoveredBy?.length
+        ? ` · also covered by ${item.alsoCoveredBy.length} source${item.alsoCoveredBy.length === 1 ? '' : 's'}`
+        : '';
+      const source = escapeHtml(item.source + coverage);
       const note = item.verificationNote && item.verificationNote.startsWith('⚠️')
         ? `\n   ${escapeHtml(item.verificationNote)}`
         : '';
@@ -173,15 +280,44 @@ export class TelegramSender {
     return chunks;
   }
 
-  async sendHtml(html: string): Promise<void> {
-    await this.bot.api.sendMessage(this.chatId, html, {
-      parse_mode: 'HTML',
-      link_preview_options: { is_disabled: true },
-    });
+  /** Sends to the admin chat unless another chat is given; waits out 429 rate limits */
+  async sendHtml(html: string, chatId: string = this.chatId): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.bot.api.sendMessage(chatId, html, {
+          parse_mode: 'HTML',
+          link_preview_options: { is_disabled: true },
+        });
+        return;
+      } catch (error) {
+        if (error instanceof GrammyError && error.error_code === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const retryAfter = error.parameters.retry_after ?? 1;
+          log('warn', `Telegram rate limit hit for chat ${chatId}, retrying in ${retryAfter}s`);
+          await sleep(retryAfter * 1000);
+          continue;
+        }
+        throw error;
+      }
+    }
   }
 
-  async sendStartupMessage(): Promise<void> {
-    const time = formatISTTime();
-    await this.sendHtml(`🤖 <b>News Pulse Bot started</b>\n⏰ ${escapeHtml(time)} IST\n\nScheduled: 10:00 AM & 8:00 PM IST daily.\nUse /health to check status.`);
+  async sendStartupMessage(defaultSchedule: string): Promise<void> {
+    const time = `${formatLocalTime()} ${getZoneLabel()}`;
+    await this.sendHtml(`🤖 <b>News Pulse Bot started</b>\n⏰ ${escapeHtml(time)}\n\nDefault schedule: ${escapeHtml(defaultSchedule)} daily.\nUse /start in any chat to subscribe, /health to check status.`);
   }
 }
+
+function isChatUnreachable(error: unknown): boolean {
+  if (!(error instanceof GrammyError)) return false;
+  if (error.error_code === 403) return true; // Blocked by the user or removed from the group
+  return error.error_code === 400 && /chat not found|group chat was (upgraded|deactivated)/i.test(error.description);
+}
+
+function pickTopNews(news: VerifiedNewsItem[], limit: number, ranking: RankingContext): VerifiedNewsItem[] {
+  return rankNews(news.filter(n => n.isVerified), ranking).slice(0, limit);
+}
+
+/** Headlines about the chat's watched stocks are boosted when picking what it sees */
+function toRankingContext({ watchlist }: SectionRenderContext): RankingContext {
+  return { watchSymbols: watchlist };
+}
@@ -1,17 +1,40 @@
+/** Category key of a registered collector, e.g. 'crypto' or 'indian-stocks' */
+export type NewsCategory = string;
+
 export interface NewsItem {
   title: string;
   url: string;
   source: string;
-  category: 'crypto' | 'indian-stocks' | 'geopolitical';
+  category: NewsCategory;
   publishedAt?: Date;
   summary?: string;
+  imageUrl?: string;
+  alsoCoveredBy?: Array<Pick<NewsItem, 'title' | 'url' | 'source'>>; // Other outlets' copies of the same story
+  entities?: string[]; // Stock and coin symbols the item mentions, e.g. ['TCS.NS', 'BTC']
 }
 
 export interface VerifiedNewsItem extends NewsItem {
   isVerified: boolean;
   verificationNote?: string;
+  verifiedBy?: VerifiedBy; // Unset when no verdict was returned and the missing-verdict policy was pass/fail
+  verdict?: Verdict; // Unset for fallbacks that did not judge the item itself
 }
 
+export type Verdict = 'PASS' | 'UNCERTAIN' | 'FAIL';
+
+/** Verdict counts for one source over the reputation window, with the score derived from them */
+export interface SourceReputation {
+  source: string;
+  pass: number;
+  uncertain: number;
+  fail: number;
+  total: number;
+  score: number; // 0-1, smoothed towards 0.5 while there are few verdicts
+}
+
+/** An AI provider, 'rules' for the offline rules verifier, or 'heuristic' for the Tier 1 source fallback */
+export type VerifiedBy = AIProvider | 'rules' | 'heuristic';
+
 export interface StockQuote {
   symbol: string;
   name: string;
@@ -24,59 +47,396 @@ export interface StockQuote {
   marketState: string;
 }
 
+export interface WatchlistEntry {
+  symbol: string; // Yahoo Finance symbol, e.g. 'TCS.NS'
+  name: string; // Short display name, e.g. 'TCS'
+  newsQuery: string; // Google News query used to collect headlines for this stock
+  addedAt?: Date;
+}
+
+export interface CryptoCoin {
+  id: string; // CoinGecko coin id, e.g. 'bitcoin'
+  symbol: string; // Display symbol, e.g. 'BTC'
+}
+
 export interface CryptoPrice {
   symbol: string;
   priceUsd: number;
   priceInr?: number;
+  change24hPercent?: number;
+  marketCapUsd?: number;
+  volume24hUsd?: number;
 }
 
-export interface CryptoCollectionResult {
-  price: CryptoPrice;
+export interface CollectionResult {
   news: NewsItem[];
   errors: string[];
+  dropped?: DroppedItemCounts; // Items the shared normalization step rejected
+}
+
+export interface DroppedItemCounts {
+  stale: number; // Older than the category's maxAgeHours
+  future: number; // Dated too far ahead to be real
+  badDate: number; // Date present but unparsable
+  incomplete: number; // No title or link
+}
+
+export type PriceKind = 'stock' | 'crypto';
+
+/** A price observed during a pipeline run, persisted for history and comparisons */
+export interface PricePoint {
+  symbol: string;
+  kind: PriceKind;
+  price: number;
+  currency: string;
+}
+
+export interface PriceSnapshot extends PricePoint {
+  capturedAt: Date;
+}
+
+/** How one symbol moved over a digest period, from the snapshots at either end */
+export interface PricePerformance extends PricePoint {
+  name: string; // Watchlist display name, or the coin symbol
+  startPrice: number;
+  changePercent: number;
+}
+
+/** Percent changes relative to earlier snapshots; undefined when there is no earlier data */
+export interface PriceComparison {
+  sincePreviousPercent?: number;
+  weekPercent?: number;
+}
+
+export type AlertCondition = 'above' | 'below' | 'change';
+
+export interface PriceAlert {
+  id: number;
+  chatId: string;
+  symbol: string;
+  kind: PriceKind;
+  condition: AlertCondition;
+  threshold: number; // Price for above/below, percent for change
+  repeat: boolean; // Re-arm after firing instead of being removed
+  armed: boolean;
+  referencePrice: number | null; // Baseline for 'change' alerts
+  createdAt: Date;
+  lastTriggeredAt?: Date;
+}
+
+/** Source of live prices for alert polling; swapped for a fake in tests */
+export interface QuoteProvider {
+  getPrices(instruments: Array<Pick<PricePoint, 'symbol' | 'kind'>>): Promise<PricePoint[]>;
 }
 
-export interface StockCollectionResult {
+export interface CryptoCollectionResult extends CollectionResult {
+  prices: CryptoPrice[]; // In configured coin order
+  dominance: Record<string, number>; // Market cap share in percent, keyed by upper-case symbol
+}
+
+export interface StockCollectionResult extends CollectionResult {
   quotes: StockQuote[];
-  news: NewsItem[];
-  isWeekend: boolean;
-  errors: string[];
+  marketStatus: MarketStatus; // NSE, which the section is about
+  quoteMarkets: Partial<Record<MarketId, MarketStatus>>; // Every other exchange a quote trades on
 }
 
-export interface GeopoliticalCollectionResult {
-  news: NewsItem[];
-  errors: string[];
+export type GeopoliticalCollectionResult = CollectionResult;
+
+/**
+ * A news source module that owns one bulletin section.
+ * Registered collectors drive collection, verification split and rendering.
+ */
+export interface Collector<R extends CollectionResult = CollectionResult> {
+  category: NewsCategory;
+  title: string;
+  emoji: string;
+  maxItems: number; // Max verified items shown in the bulletin section
+  collect(): Promise<R>;
+  emptyResult(): R; // Used when collect() rejects
+  renderOverview?(result: R, context: SectionRenderContext, news: VerifiedNewsItem[]): string; // HTML shown above the news list (prices, quotes...); `news` is what the section shows
+  overviewNews?(result: R, context: SectionRenderContext, news: VerifiedNewsItem[]): VerifiedNewsItem[]; // Items renderOverview already shows inline, left out of the list
+  pricePoints?(result: R): PricePoint[]; // Prices to persist in the history store
+  emptyMessage(result: R): string | null; // Shown when no verified news; null hides it
+}
+
+export interface BulletinSection {
+  collector: Collector;
+  result: CollectionResult;
+  news: VerifiedNewsItem[];
+  summary?: string; // AI briefing paragraph, when summaries are enabled and succeeded
+}
+
+/** Per-chat settings; null means "use the bot default" */
+export interface SubscriberPreferences {
+  categories: NewsCategory[] | null;
+  watchlist: string[]; // Stock symbols; empty shows every tracked stock
+  schedule: string[] | null; // Local 24h times, e.g. ['08:30', '18:00']
+  timezone: string | null; // IANA zone, e.g. 'Europe/London'
+}
+
+export interface Subscriber {
+  chatId: string;
+  title?: string;
+  subscribedAt: Date;
+  lastBulletinAt?: Date;
+  preferences: SubscriberPreferences;
+}
+
+/** Per-recipient data available to collectors while rendering their section */
+export interface SectionRenderContext {
+  watchlist: string[];
+  comparisons: Map<string, PriceComparison>; // Keyed by PricePoint symbol
+  timeZone: string; // The chat's own zone, else config.timezone; dates in the bulletin are shown in it
+}
+
+export interface BulletinDelivery {
+  chatId: string;
+  sections: BulletinSection[];
+  context: SectionRenderContext;
+}
+
+export interface BroadcastResult {
+  delivered: string[];
+  unreachable: string[]; // Bot was blocked, kicked or the chat no longer exists
+  failed: string[];
+}
+
+export interface BulletinBroadcastResult extends BroadcastResult {
+  shown: Map<string, VerifiedNewsItem[]>; // Items each delivered chat's bulletin listed, after ranking and per-section limits
 }
 
 export interface MessageSection {
   title: string;
   htmlContent: string;
-  category: 'crypto' | 'indian-stocks' | 'geopolitical';
+  category: NewsCategory;
 }
 
+export type MarketPhase = 'pre-open' | 'open' | 'closed';
+
+/** Exchanges with a trading calendar; NASDAQ listings share 'nyse' hours and holidays, BSE shares 'nse' */
+export type MarketId = 'nse' | 'nyse' | 'lse';
+
 export interface MarketStatus {
+  market: MarketId;
   isOpen: boolean;
-  isWeekend: boolean;
+  phase: MarketPhase;
+  isTradingDay: boolean; // False on weekends and exchange holidays without a special session
+  holidayName?: string; // Set on exchange holidays
+  sessionName?: string; // Set when today's session is a special one, e.g. 'Muhurat Trading'
+  nextOpen: Date | null; // Start of the next session after now; null when not open again within the search window
   nextOpenDescription: string;
 }
 
-export type AIProvider = 'claude' | 'openai' | 'grok';
+export interface MarketHoliday {
+  date: string; // Exchange-local 'YYYY-MM-DD'
+  name: string;
+}
+
+/** A session outside regular hours, e.g. Muhurat trading on Diwali; may fall on a weekend or holiday */
+export interface SpecialSession {
+  date: string; // Exchange-local 'YYYY-MM-DD'
+  name: string;
+  preOpen?: string; // Local 'HH:MM'
+  open: string;
+  close: string;
+}
+
+/** One exchange's holidays and special sessions, merged from its per-year files */
+export interface HolidayCalendar {
+  years: number[]; // Years with a loaded file; other years only close on weekends
+  holidays: MarketHoliday[];
+  specialSessions: SpecialSession[];
+}
+
+export type AIProvider = 'claude' | 'openai' | 'grok' | 'openai-compatible';
 
 export interface AIModelConfig {
   provider: AIProvider;
   model: string;
-  apiKey: string;
-  baseUrl?: string; // Custom base URL (required for Grok)
+  apiKey?: string; // Optional only for openai-compatible servers that do not check keys
+  baseUrl?: string; // Custom base URL (required for Grok and openai-compatible)
+  timeoutMs?: number;
+  headers?: Record<string, string>; // Extra HTTP headers sent with every request
+}
+
+/** A verification batch that failed on every AI provider; its items went to the fallback verifier */
+export interface VerificationBatchFailure {
+  batch: number; // 1-based
+  size: number;
+  error: string;
+}
+
+export interface VerificationReport {
+  items: VerifiedNewsItem[]; // In input order
+  failedBatches: VerificationBatchFailure[];
+}
+
+/** Anything that can verify a batch of news: the AI verifier or the offline rules verifier */
+export interface NewsVerifier {
+  verifyNews(items: NewsItem[]): Promise<VerificationReport>;
+}
+
+/** Scoring rules for the offline verifier, loaded from config/verification-rules.json */
+export interface VerificationRules {
+  passScore: number; // Score at or above which an item PASSes
+  uncertainScore: number; // Score at or above which an item is UNCERTAIN; below FAILs
+  tierWeights: Record<SourceTier, number>;
+  corroborationBonus: number; // Per other outlet covering the story
+  maxCorroborationBonus: number;
+  allowDomainBonus: number;
+  allowDomains: string[];
+  denyDomains: string[]; // Always FAIL
+  sourceDomains: Record<string, string[]>; // Source name (substring) -> domains its links must use
+  redirectDomains: string[]; // Aggregator links exempt from the source/domain check
+  domainMismatchPenalty: number;
+  clickbaitPenalty: number;
+  clickbaitPatterns: string[]; // Case-insensitive regular expressions
+  sensationalPenalty: number;
+  sensationalPatterns: string[];
+  freshness: { maxAgeHours: number; penaltyPerDay: number };
+}
+
+/** What happens to an item the AI returned no valid verdict for, even after a repair round */
+export type MissingVerdictPolicy = 'pass' | 'fail' | 'tier1';
+
+export type FeedSourceType = 'rss' | 'google-news' | 'newsapi' | 'json';
+
+/** 1 = top reputable outlet, 2 = established outlet, 3 = aggregator or unknown */
+export type SourceTier = 1 | 2 | 3;
+
+interface FeedSourceBase {
+  name: string;
+  category: NewsCategory;
+  maxItems: number;
+  timeoutMs: number;
+  tier: SourceTier;
+}
+
+export interface RssFeedSource extends FeedSourceBase {
+  type: 'rss';
+  url: string;
+}
+
+export interface GoogleNewsFeedSource extends FeedSourceBase {
+  type: 'google-news';
+  query: string;
+  edition: string; // Country code, e.g. 'US' or 'IN'
+}
+
+export interface NewsApiFeedSource extends FeedSourceBase {
+  type: 'newsapi';
+  url: string;
+}
+
+export interface JsonFeedSource extends FeedSourceBase {
+  type: 'json';
+  url: string;
+  itemsPath: string; // Dot path to the article array, e.g. 'Data'
+  fields: {
+    title: string;
+    url: string;
+    source?: string;
+    publishedAt?: string;
+    summary?: string;
+  };
+  dateFormat: 'iso' | 'epoch-seconds';
+}
+
+export type FeedSource = RssFeedSource | GoogleNewsFeedSource | NewsApiFeedSource | JsonFeedSource;
+
+export interface CategoryFeedSettings {
+  maxItems: number;
+  weekendMaxItems?: number;
+  keywords: string[]; // Headline terms that make an item more relevant to this category
+  maxAgeHours: number; // Older items are dropped when collected
+}
+
+/** Relevance score weights; each signal is 0-1, so a weight is the most points that signal can add */
+export interface RankingWeights {
+  recency: number;
+  recencyHalfLifeHours: number; // Age at which the recency signal has halved
+  undatedRecency: number; // 0-1 recency signal for items without a publish date
+  source: number; // Learned reputation, or the configured tier
+  corroboration: number;
+  maxCorroboration: number; // Other outlets reporting the story at which the signal is full
+  keyword: number;
+  watchlist: number; // Watched stocks and coins named in the headline
+  confidence: number; // Verifier verdict; PASS is full, UNCERTAIN or a fallback half
+}
+
+export interface FeedsConfig {
+  categories: Record<NewsCategory, CategoryFeedSettings>;
+  sources: FeedSource[];
+  ranking: RankingWeights;
+}
+
+export interface BreakingNewsConfig {
+  cron: string; // How often the lightweight pass runs
+  threshold: number; // Minimum score for an item to be pushed
+  maxAgeMinutes: number; // Older items are never treated as breaking
+  keywords: string[]; // Lowercase whole words or phrases that signal a major event; a trailing '*' matches any word starting with the rest
+}
+
+export type DigestPeriod = 'weekly' | 'monthly';
+
+/** Crons for the digests; null when switched off */
+export interface DigestConfig {
+  weeklyCron: string | null;
+  monthlyCron: string | null; // Fires on candidate days; the digest only goes out on the month's last day
+}
+
+/** A verified story kept for digests */
+export interface ArchivedStory {
+  title: string;
+  url: string;
+  source: string;
+  category: NewsCategory;
+  coverage: number; // Distinct outlets that reported it, including the lead
+  firstSeen: Date;
+}
+
+export interface DigestSection {
+  category: NewsCategory;
+  title: string;
+  emoji: string;
+  stories: ArchivedStory[]; // Most corroborated first
+}
+
+/** A recap of the period built from the story archive and price snapshots */
+export interface Digest {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  sections: DigestSection[];
+  performance: PricePerformance[]; // Tracked stocks, then configured coins
+}
+
+/** A story that scored above the breaking-news threshold */
+export interface BreakingNewsCandidate {
+  item: NewsItem;
+  score: number;
 }
 
 export interface AppConfig {
   telegramBotToken: string;
   telegramChatId: string;
+  adminChatIds: string[]; // Chats and users allowed to run admin commands
   newsApiKey: string;
-  aiModel: AIModelConfig;
+  aiModels: AIModelConfig[]; // Verifier failover chain, tried in order; the first also writes summaries. Empty with AI_PROVIDER=rules
+  verificationRules: VerificationRules;
+  missingVerdictPolicy: MissingVerdictPolicy;
+  verifyBatchTokens: number; // Estimated prompt tokens per verification batch
+  verifyConcurrency: number; // Verification batches in flight at once
+  aiSummaries: boolean; // Adds an AI briefing paragraph to each bulletin section
+  entityAliases: Record<string, string[]>; // Symbol -> other names headlines use for it
+  holidayCalendars: Record<string, HolidayCalendar>; // Keyed by exchange id, e.g. 'nse'
+  feeds: FeedsConfig;
+  cryptoCoins: CryptoCoin[];
   dbPath: string;
-  cronScheduleMorning: string;
-  cronScheduleEvening: string;
+  defaultSchedule: string[]; // Local 24h bulletin times, e.g. ['10:00', '20:00']
+  alertPollCron: string;
+  breakingNews: BreakingNewsConfig | null; // null when BREAKING_NEWS_CRON is unset
+  digests: DigestConfig;
   timezone: string;
   maxRetries: number;
   retryDelayMs: number;
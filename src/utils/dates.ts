@@ -0,0 +1,57 @@
+// Zone abbreviations seen in feed dates. IST is India (not Irish/Israel) Standard Time, as this bot's feeds are Indian.
+const ZONE_OFFSETS: Record<string, string> = {
+  UT: '+0000', UTC: '+0000', GMT: '+0000', Z: '+0000',
+  IST: '+0530',
+  EST: '-0500', EDT: '-0400', CST: '-0600', CDT: '-0500',
+  MST: '-0700', MDT: '-0600', PST: '-0800', PDT: '-0700',
+  BST: '+0100', CET: '+0100', CEST: '+0200', EET: '+0200', EEST: '+0300',
+  MSK: '+0300', GST: '+0400', PKT: '+0500', SGT: '+0800', HKT: '+0800',
+  JST: '+0900', KST: '+0900', AEST: '+1000', AEDT: '+1100',
+};
+
+// Below this a numeric timestamp is taken as seconds rather than milliseconds (~1973 in ms, ~5138 in seconds)
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/**
+ * Parses a feed date: ISO 8601, RFC 822/1123 (with numeric offsets or common zone
+ * abbreviations such as IST), or an epoch timestamp in seconds or milliseconds.
+ * Date-times without any zone are taken as UTC.
+ *
+ * Returns undefined for an empty value and an Invalid Date for one that cannot be
+ * parsed, so callers can tell undated items from badly dated ones.
+ */
+export function parseNewsDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return new Date(value.getTime());
+  if (typeof value === 'number') return fromEpoch(value);
+  if (typeof value !== 'string') return new Date(NaN);
+
+  const text = value.trim().replace(/\s+/g, ' ');
+  if (!text) return undefined;
+  if (/^\d+(\.\d+)?$/.test(text)) return fromEpoch(Number(text));
+
+  return new Date(Date.parse(withNumericZone(text)));
+}
+
+export function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+function fromEpoch(value: number): Date {
+  if (!Number.isFinite(value) || value <= 0) return new Date(NaN);
+  return new Date(value < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+}
+
+/** Rewrites a trailing zone abbreviation as a numeric offset, and marks zone-less ISO date-times as UTC */
+function withNumericZone(text: string): string {
+  const abbreviation = text.match(/^(.*\d)(?:\s+\(?|\s*\()([A-Za-z]{1,5})\)?$/);
+  if (abbreviation) {
+    const offset = ZONE_OFFSETS[abbreviation[2].toUpperCase()];
+    if (offset) return `${abbreviation[1]} ${offset}`;
+  }
+
+  const isoWithoutZone = text.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/);
+  if (isoWithoutZone) return `${isoWithoutZone[1]}T${isoWithoutZone[2]}Z`;
+
+  return text;
+}
@@ -0,0 +1,123 @@
+import { XMLParser } from 'fast-xml-parser';
+import { NewsItem, NewsCategory } from '../types/index';
+import { truncate, stripHtml } from './helpers';
+import { parseNewsDate } from './dates';
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false, // Keep guids and numeric titles as strings
+});
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf';
+
+export interface ParseFeedOptions {
+  source: string;
+  category: NewsCategory;
+  maxItems?: number;
+}
+
+/**
+ * Parses an RSS 2.0, Atom or RSS 1.0 (RDF) document into news items.
+ * Returns an empty array for documents in none of these formats.
+ */
+export function parseFeed(xml: string, options: ParseFeedOptions): NewsItem[] {
+  const parsed = xmlParser.parse(xml);
+  const { format, entries } = extractEntries(parsed);
+  if (!format) return [];
+
+  return entries.slice(0, options.maxItems ?? entries.length)
+    .map(entry => format === 'atom' ? normalizeAtomEntry(entry, options) : normalizeRssItem(entry, options))
+    .filter(item => item.title.length > 0);
+}
+
+export function detectFeedFormat(xml: string): FeedFormat | null {
+  return extractEntries(xmlParser.parse(xml)).format;
+}
+
+function extractEntries(parsed: any): { format: FeedFormat | null; entries: any[] } {
+  if (parsed?.rss) {
+    return { format: 'rss', entries: toArray(parsed.rss.channel?.item) };
+  }
+  if (parsed?.feed) {
+    return { format: 'atom', entries: toArray(parsed.feed.entry) };
+  }
+  const rdf = parsed?.['rdf:RDF'] ?? parsed?.RDF;
+  if (rdf) {
+    // RSS 1.0 keeps items as siblings of the channel rather than inside it
+    return { format: 'rdf', entries: toArray(rdf.item ?? rdf.channel?.item) };
+  }
+  return { format: null, entries: [] };
+}
+
+/** Handles both RSS 2.0 `<item>` and RDF `<item>` elements */
+function normalizeRssItem(item: any, options: ParseFeedOptions): NewsItem {
+  const guid = textOf(item.guid);
+  const guidIsLink = /^https?:\/\//i.test(guid) && item.guid?.['@_isPermaLink'] !== 'false';
+  const link = textOf(item.link) || (guidIsLink ? guid : '') || textOf(item['@_rdf:about']);
+  const description = textOf(item.description) || textOf(item['content:encoded']);
+
+  return {
+    title: cleanText(textOf(item.title)),
+    url: link.trim(),
+    source: options.source,
+    category: options.category,
+    publishedAt: parseNewsDate(textOf(item.pubDate) || textOf(item['dc:date'])),
+    summary: truncate(stripHtml(description), 200),
+    imageUrl: findImageUrl(item),
+  };
+}
+
+function normalizeAtomEntry(entry: any, options: ParseFeedOptions): NewsItem {
+  const summary = textOf(entry.summary) || textOf(entry.content);
+
+  return {
+    title: cleanText(textOf(entry.title)),
+    url: findAtomLink(entry.link),
+    source: options.source,
+    category: options.category,
+    publishedAt: parseNewsDate(textOf(entry.published) || textOf(entry.updated)),
+    summary: truncate(stripHtml(summary), 200),
+    imageUrl: findImageUrl(entry),
+  };
+}
+
+function findAtomLink(links: any): string {
+  const candidates = toArray(links);
+  const alternate = candidates.find(l => !l?.['@_rel'] || l['@_rel'] === 'alternate') ?? candidates[0];
+  if (!alternate) return '';
+  return (typeof alternate === 'string' ? alternate : String(alternate['@_href'] || '')).trim();
+}
+
+function findImageUrl(item: any): string | undefined {
+  const thumbnail = toArray(item['media:thumbnail'])[0];
+  if (thumbnail?.['@_url']) return String(thumbnail['@_url']);
+
+  const mediaContent = toArray(item['media:content'] ?? item['media:group']?.['media:content'])
+    .find(m => m?.['@_url'] && (m['@_medium'] === 'image' || String(m['@_type'] || '').startsWith('image/')));
+  if (mediaContent) return String(mediaContent['@_url']);
+
+  const enclosure = toArray(item.enclosure)
+    .find(e => e?.['@_url'] && String(e['@_type'] || '').startsWith('image/'));
+  if (enclosure) return String(enclosure['@_url']);
+
+  return undefined;
+}
+
+/** Reads the text of a node that may be a string, an attributed element or a repeated element */
+function textOf(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return textOf(node[0]);
+  if (typeof node === 'object' && '#text' in node) return String(node['#text']);
+  return '';
+}
+
+function cleanText(text: string): string {
+  return stripHtml(text).replace(/\s+/g, ' ').trim();
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
@@ -32,38 +32,120 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/** Maps items through `fn` with at most `limit` calls in flight; results keep input order */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+/** Rough token count for budgeting prompts (~4 characters per token for English text) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export function getISTDate(): Date {
-  const now = new Date();
-  const utcMs = now.getTime() + now.getTimezoneOffset() * 60 * 1000;
-  return new Date(utcMs + 5.5 * 60 * 60 * 1000);
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Parses '8:30, 18:00' into sorted ['08:30', '18:00']; null if any entry is invalid */
+export function parseTimeList(input: string): string[] | null {
+  const entries = input.split(',').map(e => e.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const times: string[] = [];
+  for (const entry of entries) {
+    const match = entry.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+    times.push(`${match[1].padStart(2, '0')}:${match[2]}`);
+  }
+  return Array.from(new Set(times)).sort();
+}
+
+/** Matches `term` as a whole word or phrase (any whitespace between words), letters and digits in any script */
+export function termPattern(term: string, caseSensitive: boolean = false): RegExp {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, caseSensitive ? 'u' : 'iu');
 }
 
-export function isWeekendIndia(): boolean {
-  const ist = getISTDate();
-  const day = ist.getDay();
-  return day === 0 || day === 6;
+/** Ticker without its exchange suffix, e.g. 'TCS.NS' -> 'TCS' */
+export function tickerRoot(symbol: string): string {
+  return symbol.replace(/\.[A-Z]{1,3}$/i, '');
 }
 
-export function formatISTTime(): string {
-  return new Intl.DateTimeFormat('en-IN', {
-    timeZone: 'Asia/Kolkata',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: true,
-  }).format(new Date());
+const CURRENCY_SYMBOLS: Record<string, string> = { INR: '₹', USD: '$', EUR: '€', GBP: '£', JPY: '¥' };
+
+/** Formats a price with its currency symbol (or ISO code), e.g. '₹4,123.50' or 'CHF 91.20' */
+export function formatPrice(amount: number, currency: string): string {
+  const locale = currency === 'INR' ? 'en-IN' : 'en-US';
+  const formatted = amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const symbol = CURRENCY_SYMBOLS[currency];
+  return symbol ? `${symbol}${formatted}` : `${currency} ${formatted}`;
+}
+
+/** Abbreviates large amounts, e.g. 1.32T, 28.1B, 540M */
+export function formatCompactNumber(value: number): string {
+  const units: Array<[number, string]> = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  for (const [size, suffix] of units) {
+    if (Math.abs(value) >= size) {
+      const scaled = value / size;
+      return `${scaled.toFixed(scaled >= 100 ? 0 : scaled >= 10 ? 1 : 2)}${suffix}`;
+    }
+  }
+  return value.toFixed(0);
+}
+
+/** e.g. 'prev +0.80% · 7d -2.10%'; empty when there is nothing to compare */
+export function formatPriceComparison(comparison?: { sincePreviousPercent?: number; weekPercent?: number }): string {
+  if (!comparison) return '';
+  const parts: string[] = [];
+  if (comparison.sincePreviousPercent !== undefined) {
+    parts.push(`prev ${formatSignedPercent(comparison.sincePreviousPercent)}`);
+  }
+  if (comparison.weekPercent !== undefined) {
+    parts.push(`7d ${formatSignedPercent(comparison.weekPercent)}`);
+  }
+  return parts.join(' · ');
+}
+
+export function formatSignedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
 }
 
-export function formatISTDate(): string {
-  return new Intl.DateTimeFormat('en-IN', {
-    timeZone: 'Asia/Kolkata',
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric',
-  }).format(new Date());
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+/** Renders values as a unicode sparkline, e.g. '▁▃▅▇█▆' */
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return '';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  return values.map(v => {
+    const level = range === 0 ? 3 : Math.round(((v - min) / range) * (SPARK_CHARS.length - 1));
+    return SPARK_CHARS[level];
+  }).join('');
 }
 
 export function escapeHtml(text: string): string {
@@ -80,7 +162,25 @@ export function truncate(text: string, maxLength: number): string {
 }
 
 export function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&#39;/g, "'").replace(/&quot;/g, '"').trim();
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', rupee: '₹', deg: '°', times: '×', divide: '÷',
+};
+
+/** Decodes named (common set) and numeric HTML entities; unknown names are left as-is */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
 }
 
 export function normalizeTitle(title: string): string {
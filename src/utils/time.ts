@@ -0,0 +1,92 @@
+import { config } from '../config';
+
+// Every wall-clock calculation goes through Intl with an explicit IANA zone, so results never
+// depend on the server's TZ. Zones default to config.timezone; pass a chat's or an exchange's
+// own zone where that is the one that matters.
+
+// Each locale knows the abbreviations of its own region ('IST' only in en-IN, 'BST' only in en-GB)
+const ZONE_NAME_LOCALES = ['en-US', 'en-GB', 'en-IN', 'en-AU'];
+
+/** Local 24h wall-clock time, e.g. '08:30' */
+export function getLocalClockTime(timeZone: string = config.timezone, date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
+}
+
+/** Local calendar date as 'YYYY-MM-DD' */
+export function getLocalDateKey(timeZone: string = config.timezone, date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/** Adds whole days to a 'YYYY-MM-DD' key */
+export function addDaysToKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Day of week of a 'YYYY-MM-DD' key, 0 = Sunday */
+export function weekdayOfKey(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+/** The instant a wall clock in `timeZone` reads `time` ('HH:MM') on `dateKey` ('YYYY-MM-DD') */
+export function zonedDateTime(dateKey: string, time: string, timeZone: string = config.timezone): Date {
+  const wallClock = new Date(`${dateKey}T${time}:00Z`);
+  const firstGuess = new Date(wallClock.getTime() - timeZoneOffsetMs(wallClock, timeZone));
+  // A second pass settles times near a daylight-saving change
+  return new Date(wallClock.getTime() - timeZoneOffsetMs(firstGuess, timeZone));
+}
+
+/** Local midnight starting `date`'s local day, or the day `daysAgo` days before it */
+export function startOfLocalDay(timeZone: string = config.timezone, date: Date = new Date(), daysAgo: number = 0): Date {
+  return zonedDateTime(addDaysToKey(getLocalDateKey(timeZone, date), -daysAgo), '00:00', timeZone);
+}
+
+/** e.g. '19 Oct 2026' */
+export function formatLocalDate(timeZone: string = config.timezone, date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone,
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  }).format(date);
+}
+
+/** e.g. '08:30 pm' */
+export function formatLocalTime(timeZone: string = config.timezone, date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+  }).format(date);
+}
+
+/** Short zone name at `date`, e.g. 'IST', 'BST' or 'EDT'; an offset like 'GMT+9' where no abbreviation is common */
+export function getZoneLabel(timeZone: string = config.timezone, date: Date = new Date()): string {
+  let fallback = timeZone;
+  for (const locale of ZONE_NAME_LOCALES) {
+    const name = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find(p => p.type === 'timeZoneName')?.value;
+    if (!name) continue;
+    if (!/^(GMT|UTC)[+-]/.test(name)) return name;
+    if (fallback === timeZone) fallback = name;
+  }
+  return fallback;
+}
+
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
@@ -0,0 +1,155 @@
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AIClient, StructuredOutputSchema } from '../src/services/ai-client';
+import { AIModelConfig } from '../src/types/index';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+type Handler = (request: RecordedRequest, response: ServerResponse) => void;
+
+const schema: StructuredOutputSchema = {
+  name: 'record_answer',
+  description: 'Records the answer',
+  schema: {
+    type: 'object',
+    properties: { answer: { type: 'string' } },
+    required: ['answer'],
+    additionalProperties: false,
+  },
+};
+
+function reply(response: ServerResponse, content: string): void {
+  response.writeHead(200, { 'content-type': 'application/json' });
+  response.end(JSON.stringify({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1_790_000_000,
+    model: 'local-model',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  }));
+}
+
+// A stand-in for a self-hosted chat-completions server such as Ollama or vLLM
+let server: Server;
+let origin: string;
+let requests: RecordedRequest[];
+let handler: Handler;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = { method: req.method ?? '', path: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (_, res) => reply(res, 'ok');
+});
+
+function localClient(overrides: Partial<AIModelConfig> = {}): AIClient {
+  return new AIClient({ provider: 'openai-compatible', model: 'local-model', baseUrl: `${origin}/v1`, ...overrides });
+}
+
+describe('AIClient with an openai-compatible server', () => {
+  it('posts chat completions under the base URL path', async () => {
+    await localClient().complete('system', 'user');
+    await localClient({ baseUrl: `${origin}/proxy/openai/v1/` }).complete('system', 'user');
+
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'POST /v1/chat/completions',
+      'POST /proxy/openai/v1/chat/completions',
+    ]);
+  });
+
+  it('sends the configured headers and a placeholder key when none is set', async () => {
+    await localClient({ headers: { 'X-Tenant': 'news-pulse', 'CF-Access-Client-Id': 'abc' } }).complete('system', 'user');
+
+    expect(requests[0].headers['x-tenant']).toBe('news-pulse');
+    expect(requests[0].headers['cf-access-client-id']).toBe('abc');
+    expect(requests[0].headers.authorization).toBe('Bearer not-needed');
+  });
+
+  it('sends the configured API key', async () => {
+    await localClient({ apiKey: 'sk-local' }).complete('system', 'user');
+
+    expect(requests[0].headers.authorization).toBe('Bearer sk-local');
+  });
+
+  it('returns the reply text and sends both prompts', async () => {
+    handler = (_, res) => reply(res, 'Markets closed higher.');
+
+    await expect(localClient().complete('Be brief', 'Summarise the day', 256)).resolves.toBe('Markets closed higher.');
+    expect(requests[0].body).toMatchObject({
+      model: 'local-model',
+      max_tokens: 256,
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Summarise the day' }],
+    });
+  });
+
+  it('requests json_schema output and parses the reply', async () => {
+    handler = (_, res) => reply(res, '{"answer":"yes"}');
+
+    await expect(localClient().completeStructured('system', 'user', schema)).resolves.toEqual({ answer: 'yes' });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'record_answer', description: 'Records the answer', schema: schema.schema, strict: true },
+    });
+  });
+
+  it('falls back to a prompted schema when the server rejects json_schema', async () => {
+    handler = (request, res) => {
+      if (request.body.response_format) {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'response_format json_schema is not supported', type: 'invalid_request_error' } }));
+        return;
+      }
+      reply(res, 'Sure! Here it is:\n```json\n{"answer":"no"}\n```');
+    };
+
+    await expect(localClient().completeStructured('Answer the question', 'user', schema)).resolves.toEqual({ answer: 'no' });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].body.response_format).toBeUndefined();
+    expect(requests[1].body.messages[0].content).toContain('Answer the question');
+    expect(requests[1].body.messages[0].content).toContain(JSON.stringify(schema.schema));
+  });
+
+  it('does not fall back when the server fails (5xx)', async () => {
+    handler = (_, res) => {
+      res.writeHead(500, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'model crashed' } }));
+    };
+
+    await expect(localClient().completeStructured('system', 'user', schema)).rejects.toMatchObject({ status: 500 });
+    expect(requests.every(r => r.body.response_format)).toBe(true);
+  });
+
+  it('gives up after timeoutMs when the server does not answer', async () => {
+    handler = () => { /* never responds */ };
+
+    const started = Date.now();
+    await expect(localClient({ timeoutMs: 100 }).complete('system', 'user')).rejects.toThrow(/timed out/i);
+    // Every attempt, retries included, is cut off rather than left hanging
+    expect(requests.length).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeLessThan(10_000);
+  }, 15_000);
+});
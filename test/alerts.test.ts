@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MarketId, PricePoint, QuoteProvider } from '../src/types/index';
+import { AlertMonitor, AlertService, evaluateAlert, NewPriceAlert } from '../src/services/alerts';
+import { AppDatabase } from '../src/services/database';
+import { createMarketQuoteProvider } from '../src/services/quote-provider';
+import { fetchStockQuotes } from '../src/services/stock-quotes';
+import { fetchCoinPrices } from '../src/collectors/crypto';
+import { openTestDatabase } from './helpers';
+
+vi.mock('../src/services/stock-quotes', () => ({ fetchStockQuotes: vi.fn() }));
+vi.mock('../src/collectors/crypto', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/collectors/crypto')>(),
+  fetchCoinPrices: vi.fn(),
+}));
+
+/** Serves whatever prices the test last set and records what was asked for */
+class FakeQuoteProvider implements QuoteProvider {
+  prices = new Map<string, PricePoint>();
+  requests: string[][] = [];
+
+  set(symbol: string, price: number, kind: PricePoint['kind'] = 'stock', currency: string = 'INR'): void {
+    this.prices.set(symbol, { symbol, kind, price, currency });
+  }
+
+  async getPrices(instruments: Array<Pick<PricePoint, 'symbol' | 'kind'>>): Promise<PricePoint[]> {
+    this.requests.push(instruments.map(i => i.symbol));
+    return instruments.flatMap(i => this.prices.get(i.symbol) ?? []);
+  }
+}
+
+describe('evaluateAlert', () => {
+  it('fires an armed above alert at or past the threshold and disarms it', () => {
+    const alert = { condition: 'above' as const, threshold: 100, armed: true, referencePrice: null };
+
+    expect(evaluateAlert(alert, 99.9)).toEqual({ triggered: false, armed: true, referencePrice: null });
+    expect(evaluateAlert(alert, 100)).toEqual({ triggered: true, armed: false, referencePrice: null });
+    expect(evaluateAlert(alert, 105)).toEqual({ triggered: true, armed: false, referencePrice: null });
+  });
+
+  it('fires an armed below alert at or under the threshold and disarms it', () => {
+    const alert = { condition: 'below' as const, threshold: 100, armed: true, referencePrice: null };
+
+    expect(evaluateAlert(alert, 100.1).triggered).toBe(false);
+    expect(evaluateAlert(alert, 100)).toEqual({ triggered: true, armed: false, referencePrice: null });
+    expect(evaluateAlert(alert, 95).triggered).toBe(true);
+  });
+
+  it('re-arms an above alert only once the price is the hysteresis margin back under the threshold', () => {
+    const fired = { condition: 'above' as const, threshold: 100, armed: false, referencePrice: null };
+
+    expect(evaluateAlert(fired, 120)).toEqual({ triggered: false, armed: false, referencePrice: null });
+    expect(evaluateAlert(fired, 99.5).armed).toBe(false);
+    expect(evaluateAlert(fired, 99).armed).toBe(true);
+    expect(evaluateAlert(fired, 99.5, 0.5).armed).toBe(true);
+  });
+
+  it('re-arms a below alert only once the price is the hysteresis margin back over the threshold', () => {
+    const fired = { condition: 'below' as const, threshold: 100, armed: false, referencePrice: null };
+
+    expect(evaluateAlert(fired, 80).triggered).toBe(false);
+    expect(evaluateAlert(fired, 100.5).armed).toBe(false);
+    expect(evaluateAlert(fired, 101).armed).toBe(true);
+  });
+
+  it('fires a change alert on a move of threshold percent either way and resets the reference', () => {
+    const alert = { condition: 'change' as const, threshold: 5, armed: true, referencePrice: 200 };
+
+    expect(evaluateAlert(alert, 209)).toEqual({ triggered: false, armed: true, referencePrice: 200 });
+    expect(evaluateAlert(alert, 210)).toEqual({ triggered: true, armed: true, referencePrice: 210 });
+    expect(evaluateAlert(alert, 189)).toEqual({ triggered: true, armed: true, referencePrice: 189 });
+  });
+
+  it('takes the first price as the reference of a change alert without one', () => {
+    const alert = { condition: 'change' as const, threshold: 5, armed: true, referencePrice: null };
+
+    expect(evaluateAlert(alert, 150)).toEqual({ triggered: false, armed: true, referencePrice: 150 });
+  });
+});
+
+describe('AlertMonitor', () => {
+  let db: AppDatabase;
+  let dispose: () => void;
+  let alerts: AlertService;
+  let quotes: FakeQuoteProvider;
+  let sent: Array<{ chatId: string; html: string }>;
+  let openMarkets: Set<MarketId>;
+  let monitor: AlertMonitor;
+
+  const now = new Date('2026-10-19T06:00:00Z');
+
+  function addAlert(alert: Partial<NewPriceAlert> & Pick<NewPriceAlert, 'symbol' | 'condition' | 'threshold'>): number {
+    return alerts.add({ chatId: '42', kind: 'stock', repeat: false, referencePrice: null, ...alert });
+  }
+
+  beforeEach(async () => {
+    ({ db, dispose } = await openTestDatabase());
+    alerts = new AlertService(db);
+    alerts.initialize();
+    quotes = new FakeQuoteProvider();
+    sent = [];
+    openMarkets = new Set(['nse', 'nyse', 'lse']);
+    monitor = new AlertMonitor(
+      alerts,
+      quotes,
+      async (chatId, html) => { sent.push({ chatId, html }); },
+      market => openMarkets.has(market),
+    );
+  });
+
+  afterEach(() => dispose());
+
+  it('notifies above and below alerts that are crossed', async () => {
+    addAlert({ symbol: 'TCS.NS', condition: 'above', threshold: 4000 });
+    addAlert({ symbol: 'INFY.NS', condition: 'below', threshold: 1500, chatId: '7' });
+    addAlert({ symbol: 'RELIANCE.NS', condition: 'above', threshold: 3000 });
+    quotes.set('TCS.NS', 4012.5);
+    quotes.set('INFY.NS', 1480);
+    quotes.set('RELIANCE.NS', 2950);
+
+    expect(await monitor.poll(now)).toBe(2);
+    expect(sent.map(s => s.chatId)).toEqual(['42', '7']);
+    expect(sent[0].html).toContain('<b>TCS.NS</b>');
+    expect(sent[0].html).toContain('above');
+    expect(sent[1].html).toContain('below');
+    expect(quotes.requests).toEqual([['TCS.NS', 'INFY.NS', 'RELIANCE.NS']]);
+  });
+
+  it('removes a one-shot alert once delivered', async () => {
+    addAlert({ symbol: 'TCS.NS', condition: 'above', threshold: 4000 });
+    quotes.set('TCS.NS', 4100);
+
+    expect(await monitor.poll(now)).toBe(1);
+    expect(sent[0].html).toContain('has been removed');
+    expect(alerts.getAll()).toEqual([]);
+
+    expect(await monitor.poll(now)).toBe(0);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('keeps a one-shot alert when delivery fails so the next poll retries', async () => {
+    addAlert({ symbol: 'TCS.NS', condition: 'above', threshold: 4000 });
+    quotes.set('TCS.NS', 4100);
+    const failing = new AlertMonitor(alerts, quotes, async () => { throw new Error('chat not found'); }, () => true);
+
+    expect(await failing.poll(now)).toBe(0);
+    expect(alerts.getAll()).toHaveLength(1);
+  });
+
+  it('fires a repeating alert once per crossing, re-arming past the hysteresis margin', async () => {
+    const id = addAlert({ symbol: 'TCS.NS', condition: 'above', threshold: 4000, repeat: true });
+
+    quotes.set('TCS.NS', 4050);
+    expect(await monitor.poll(now)).toBe(1);
+    expect(alerts.getAll()[0]).toMatchObject({ id, armed: false, lastTriggeredAt: now });
+
+    // Hovering around the threshold does not fire again
+    quotes.set('TCS.NS', 3990);
+    expect(await monitor.poll(now)).toBe(0);
+    quotes.set('TCS.NS', 4020);
+    expect(await monitor.poll(now)).toBe(0);
+
+    // 1% under the threshold re-arms it
+    quotes.set('TCS.NS', 3960);
+    expect(await monitor.poll(now)).toBe(0);
+    expect(alerts.getAll()[0].armed).toBe(true);
+
+    quotes.set('TCS.NS', 4001);
+    expect(await monitor.poll(now)).toBe(1);
+    expect(sent).toHaveLength(2);
+    expect(sent[1].html).toContain(`Repeating alert #${id}`);
+  });
+
+  it('fires change alerts on a percent move from the last reference', async () => {
+    const id = addAlert({ symbol: 'BTC', kind: 'crypto', condition: 'change', threshold: 5, repeat: true, referencePrice: 60000 });
+
+    quotes.set('BTC', 62000, 'crypto', 'USD');
+    expect(await monitor.poll(now)).toBe(0);
+
+    quotes.set('BTC', 63000, 'crypto', 'USD');
+    expect(await monitor.poll(now)).toBe(1);
+    expect(sent[0].html).toContain('+5.00%');
+    expect(alerts.getAll()[0]).toMatchObject({ id, referencePrice: 63000 });
+
+    quotes.set('BTC', 60000, 'crypto', 'USD');
+    expect(await monitor.poll(now)).toBe(0);
+    quotes.set('BTC', 59800, 'crypto', 'USD');
+    expect(await monitor.poll(now)).toBe(1);
+    expect(alerts.getAll()[0].referencePrice).toBe(59800);
+  });
+
+  it('skips stocks while their market is closed but keeps checking crypto', async () => {
+    addAlert({ symbol: 'TCS.NS', condition: 'above', threshold: 4000 });
+    addAlert({ symbol: 'AAPL', condition: 'below', threshold: 200 });
+    addAlert({ symbol: 'ETH', kind: 'crypto', condition: 'above', threshold: 3000 });
+    quotes.set('TCS.NS', 4100);
+    quotes.set('AAPL', 190, 'stock', 'USD');
+    quotes.set('ETH', 3100, 'crypto', 'USD');
+    openMarkets.delete('nse');
+
+    expect(await monitor.poll(now)).toBe(2);
+    expect(quotes.requests).toEqual([['AAPL', 'ETH']]);
+    expect(alerts.getAll().map(a => a.symbol)).toEqual(['TCS.NS']);
+
+    openMarkets.clear();
+    quotes.requests = [];
+    expect(await monitor.poll(now)).toBe(0);
+    expect(quotes.requests).toEqual([]);
+
+    openMarkets.add('nse');
+    expect(await monitor.poll(now)).toBe(1);
+    expect(alerts.getAll()).toEqual([]);
+  });
+
+  it('ignores symbols without a usable price', async () => {
+    addAlert({ symbol: 'TCS.NS', condition: 'below', threshold: 4000 });
+    quotes.set('TCS.NS', 0);
+
+    expect(await monitor.poll(now)).toBe(0);
+    expect(alerts.getAll()).toHaveLength(1);
+  });
+});
+
+describe('createMarketQuoteProvider', () => {
+  const coins = [{ id: 'bitcoin', symbol: 'BTC' }, { id: 'ethereum', symbol: 'ETH' }];
+  const instruments = [
+    { symbol: 'TCS.NS', kind: 'stock' as const },
+    { symbol: 'BTC', kind: 'crypto' as const },
+  ];
+  const tcs = { symbol: 'TCS.NS', name: 'TCS.NS', price: 4100, currency: 'INR', change: 10, changePercent: 0.25, marketState: 'REGULAR' };
+  const btc = { symbol: 'BTC', priceUsd: 65000 };
+
+  beforeEach(() => {
+    vi.mocked(fetchStockQuotes).mockReset().mockResolvedValue([tcs]);
+    vi.mocked(fetchCoinPrices).mockReset().mockResolvedValue([btc]);
+  });
+
+  it('combines stock quotes and the wanted coins', async () => {
+    const prices = await createMarketQuoteProvider(coins).getPrices(instruments);
+
+    expect(prices).toEqual([
+      { symbol: 'TCS.NS', kind: 'stock', price: 4100, currency: 'INR' },
+      { symbol: 'BTC', kind: 'crypto', price: 65000, currency: 'USD' },
+    ]);
+    expect(fetchCoinPrices).toHaveBeenCalledWith([{ id: 'bitcoin', symbol: 'BTC' }]);
+  });
+
+  it('still returns stock quotes when CoinGecko fails', async () => {
+    vi.mocked(fetchCoinPrices).mockRejectedValue(new Error('429 Too Many Requests'));
+
+    expect(await createMarketQuoteProvider(coins).getPrices(instruments)).toEqual([
+      { symbol: 'TCS.NS', kind: 'stock', price: 4100, currency: 'INR' },
+    ]);
+  });
+
+  it('still returns coin prices when Yahoo Finance fails', async () => {
+    vi.mocked(fetchStockQuotes).mockRejectedValue(new Error('socket hang up'));
+
+    expect(await createMarketQuoteProvider(coins).getPrices(instruments)).toEqual([
+      { symbol: 'BTC', kind: 'crypto', price: 65000, currency: 'USD' },
+    ]);
+  });
+
+  it('lets the monitor fire the alerts whose source answered', async () => {
+    const { db, dispose } = await openTestDatabase();
+    try {
+      const alerts = new AlertService(db);
+      alerts.initialize();
+      alerts.add({ chatId: '42', symbol: 'TCS.NS', kind: 'stock', condition: 'above', threshold: 4000, repeat: false, referencePrice: null });
+      alerts.add({ chatId: '42', symbol: 'BTC', kind: 'crypto', condition: 'above', threshold: 60000, repeat: false, referencePrice: null });
+      vi.mocked(fetchCoinPrices).mockRejectedValue(new Error('CoinGecko down'));
+      const sent: string[] = [];
+      const monitor = new AlertMonitor(alerts, createMarketQuoteProvider(coins), async (_, html) => { sent.push(html); }, () => true);
+
+      expect(await monitor.poll(new Date('2026-10-19T06:00:00Z'))).toBe(1);
+      expect(sent[0]).toContain('<b>TCS.NS</b>');
+      expect(alerts.getAll().map(a => a.symbol)).toEqual(['BTC']);
+    } finally {
+      dispose();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { NewsItem } from '../src/types/index';
+import { clusterStories, coverageCount, groupSimilarStories } from '../src/services/clustering';
+
+function story(title: string, source: string): NewsItem {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return { title, url: `https://${source.toLowerCase().replace(/\s+/g, '')}.example.com/${slug}`, source, category: 'indian-stocks' };
+}
+
+function titlesOf(groups: NewsItem[][]): string[][] {
+  return groups.map(group => group.map(item => item.title));
+}
+
+describe('groupSimilarStories', () => {
+  it('groups the same market move reported by several outlets', () => {
+    const groups = groupSimilarStories([
+      story('Sensex falls 500 points as IT stocks drag', 'Economic Times'),
+      story('RBI keeps repo rate unchanged at 6.5%', 'Moneycontrol'),
+      story('Sensex tanks 500 points; Infosys, TCS drag', 'Google News: Market'),
+      story('Gold prices hit record as rupee weakens', 'LiveMint'),
+      story('Sensex slumps 500 points as IT stocks weigh', 'Moneycontrol'),
+      story('RBI holds repo rate steady, keeps stance neutral', 'LiveMint'),
+      story('Adani Ports wins Sri Lanka terminal contract', 'Economic Times'),
+    ]);
+
+    expect(titlesOf(groups)).toEqual([
+      [
+        'Sensex falls 500 points as IT stocks drag',
+        'Sensex tanks 500 points; Infosys, TCS drag',
+        'Sensex slumps 500 points as IT stocks weigh',
+      ],
+      ['RBI keeps repo rate unchanged at 6.5%', 'RBI holds repo rate steady, keeps stance neutral'],
+      ['Gold prices hit record as rupee weakens'],
+      ['Adani Ports wins Sri Lanka terminal contract'],
+    ]);
+  });
+
+  it('keeps look-alike headlines about different moves apart', () => {
+    const groups = groupSimilarStories([
+      story('Sensex falls 500 points as IT stocks drag', 'Economic Times'),
+      story('Sensex jumps 800 points as banks rally', 'LiveMint'),
+      story('Nifty Bank hits record high on HDFC results', 'Moneycontrol'),
+      story('Sensex, Nifty open flat ahead of Fed decision', 'Economic Times'),
+    ]);
+
+    expect(groups).toHaveLength(4);
+  });
+
+  it('keeps the same verb about different companies apart', () => {
+    const groups = groupSimilarStories([
+      story('Infosys shares fall 4% after weak guidance', 'Economic Times'),
+      story('Wipro shares fall 3% after CEO exit', 'LiveMint'),
+    ]);
+
+    expect(groups).toHaveLength(2);
+  });
+
+  it('returns no groups for no items', () => {
+    expect(groupSimilarStories([])).toEqual([]);
+  });
+});
+
+describe('clusterStories', () => {
+  it('leads with the highest-tier outlet and lists the others once each', () => {
+    const [sensex, gold] = clusterStories([
+      story('Sensex tanks 500 points; Infosys, TCS drag', 'Google News: Market'),
+      story('Gold prices hit record as rupee weakens', 'LiveMint'),
+      story('Sensex falls 500 points as IT stocks drag', 'Economic Times'),
+      story('Sensex slumps 500 points as IT stocks weigh', 'Moneycontrol'),
+      story('Sensex falls 500 pts as IT stocks drag', 'Google News: Market'),
+    ]);
+
+    expect(sensex.source).toBe('Economic Times');
+    expect(sensex.alsoCoveredBy?.map(c => c.source)).toEqual(['Moneycontrol', 'Google News: Market']);
+    expect(coverageCount(sensex)).toBe(3);
+    expect(gold.alsoCoveredBy).toBeUndefined();
+  });
+
+  it('leaves single-outlet stories without alsoCoveredBy', () => {
+    const clustered = clusterStories([
+      story('Sensex falls 500 points as IT stocks drag', 'Economic Times'),
+      story('Sensex falls 500 points as IT stocks drag', 'Economic Times'),
+      story('Gold prices hit record as rupee weakens', 'LiveMint'),
+    ]);
+
+    expect(clustered).toHaveLength(2);
+    expect(clustered.every(item => item.alsoCoveredBy === undefined)).toBe(true);
+    expect(clustered.map(coverageCount)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { NewsItem } from '../src/types/index';
+import { isValidDate, parseNewsDate } from '../src/utils/dates';
+import { countDropped, MAX_FUTURE_SKEW_MS, normalizeNews } from '../src/collectors/sources';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function iso(value: unknown): string | undefined {
+  const date = parseNewsDate(value);
+  return date && isValidDate(date) ? date.toISOString() : date && 'invalid';
+}
+
+describe('parseNewsDate', () => {
+  it('parses RFC 822 dates with numeric offsets', () => {
+    expect(iso('Mon, 19 Oct 2026 09:15:00 +0530')).toBe('2026-10-19T03:45:00.000Z');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 -0400')).toBe('2026-10-19T13:15:00.000Z');
+    expect(iso('19 Oct 2026 09:15:00 +0000')).toBe('2026-10-19T09:15:00.000Z');
+  });
+
+  it('reads IST as India Standard Time, with or without parentheses', () => {
+    expect(iso('Mon, 19 Oct 2026 09:15:00 IST')).toBe('2026-10-19T03:45:00.000Z');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 (IST)')).toBe('2026-10-19T03:45:00.000Z');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 ist')).toBe('2026-10-19T03:45:00.000Z');
+  });
+
+  it('reads other common zone abbreviations', () => {
+    expect(iso('Mon, 19 Oct 2026 09:15:00 GMT')).toBe('2026-10-19T09:15:00.000Z');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 EDT')).toBe('2026-10-19T13:15:00.000Z');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 BST')).toBe('2026-10-19T08:15:00.000Z');
+  });
+
+  it('parses ISO 8601 with offsets and takes zone-less date-times as UTC', () => {
+    expect(iso('2026-10-19T09:15:00+05:30')).toBe('2026-10-19T03:45:00.000Z');
+    expect(iso('2026-10-19T09:15:00.250Z')).toBe('2026-10-19T09:15:00.250Z');
+    expect(iso('2026-10-19T09:15:00')).toBe('2026-10-19T09:15:00.000Z');
+    expect(iso('2026-10-19 09:15')).toBe('2026-10-19T09:15:00.000Z');
+  });
+
+  it('takes epoch values below 1e11 as seconds and larger ones as milliseconds', () => {
+    expect(iso(1_792_386_900)).toBe('2026-10-19T05:15:00.000Z');
+    expect(iso(1_792_386_900_000)).toBe('2026-10-19T05:15:00.000Z');
+    expect(iso('1792386900')).toBe('2026-10-19T05:15:00.000Z');
+    expect(iso('1792386900000')).toBe('2026-10-19T05:15:00.000Z');
+    // Either side of the cut-off: ~5138 AD in seconds, ~1973 in milliseconds
+    expect(parseNewsDate(99_999_999_999)!.getUTCFullYear()).toBe(5138);
+    expect(parseNewsDate(100_000_000_000)!.getUTCFullYear()).toBe(1973);
+  });
+
+  it('returns undefined for missing values and an Invalid Date for garbage', () => {
+    expect(parseNewsDate(undefined)).toBeUndefined();
+    expect(parseNewsDate(null)).toBeUndefined();
+    expect(parseNewsDate('   ')).toBeUndefined();
+
+    expect(iso('yesterday afternoon')).toBe('invalid');
+    expect(iso('Mon, 19 Oct 2026 09:15:00 XYZ')).toBe('invalid');
+    expect(iso(0)).toBe('invalid');
+    expect(iso(-5)).toBe('invalid');
+    expect(iso(Number.NaN)).toBe('invalid');
+    expect(iso({ date: '2026-10-19' })).toBe('invalid');
+  });
+
+  it('copies Date inputs', () => {
+    const original = new Date('2026-10-19T03:45:00Z');
+    const parsed = parseNewsDate(original)!;
+
+    expect(parsed).toEqual(original);
+    expect(parsed).not.toBe(original);
+  });
+});
+
+describe('normalizeNews', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  function item(title: string, publishedAt: Date | undefined, url: string = `https://example.com/${title}`): NewsItem {
+    return { title, url, source: 'Example', category: 'crypto', publishedAt };
+  }
+
+  it('keeps items up to MAX_FUTURE_SKEW_MS ahead and drops later ones', () => {
+    const { kept, dropped } = normalizeNews([
+      item('at-skew', new Date(now.getTime() + MAX_FUTURE_SKEW_MS)),
+      item('past-skew', new Date(now.getTime() + MAX_FUTURE_SKEW_MS + 1)),
+      item('tomorrow', new Date(now.getTime() + 24 * HOUR_MS)),
+    ], 'crypto', now);
+
+    expect(kept.map(i => i.title)).toEqual(['at-skew']);
+    expect(dropped.future).toBe(2);
+  });
+
+  it("drops items older than the category's maxAgeHours", () => {
+    // crypto allows 48 hours, indian-stocks 72 (config/feeds.json)
+    const items = [
+      item('47h', new Date(now.getTime() - 47 * HOUR_MS)),
+      item('48h', new Date(now.getTime() - 48 * HOUR_MS)),
+      item('49h', new Date(now.getTime() - 49 * HOUR_MS)),
+      item('73h', new Date(now.getTime() - 73 * HOUR_MS)),
+    ];
+
+    const crypto = normalizeNews(items, 'crypto', now);
+    expect(crypto.kept.map(i => i.title)).toEqual(['47h', '48h']);
+    expect(crypto.dropped.stale).toBe(2);
+
+    const stocks = normalizeNews(items, 'indian-stocks', now);
+    expect(stocks.kept.map(i => i.title)).toEqual(['47h', '48h', '49h']);
+    expect(stocks.dropped.stale).toBe(1);
+  });
+
+  it('keeps undated items, drops badly dated and incomplete ones, and trims the rest', () => {
+    const { kept, dropped } = normalizeNews([
+      item('  Undated  ', undefined, '  https://example.com/undated  '),
+      item('Bad date', parseNewsDate('not a date')),
+      item('   ', now),
+      item('No link', now, ''),
+    ], 'crypto', now);
+
+    expect(kept).toEqual([{ title: 'Undated', url: 'https://example.com/undated', source: 'Example', category: 'crypto', publishedAt: undefined }]);
+    expect(dropped).toEqual({ stale: 0, future: 0, badDate: 1, incomplete: 2 });
+    expect(countDropped(dropped)).toBe(3);
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PricePerformance, VerifiedNewsItem } from '../src/types/index';
+import { DEFAULT_WATCHLIST } from '../src/config';
+import { registerBuiltInCollectors } from '../src/collectors/index';
+import { AppDatabase } from '../src/services/database';
+import { buildDigest, getDigestStart, isLastDayOfMonth, pickBiggestMovers } from '../src/services/digest';
+import { PriceHistoryService } from '../src/services/price-history';
+import { StoryArchiveService } from '../src/services/story-archive';
+import { WatchlistService } from '../src/services/watchlist';
+import { openTestDatabase } from './helpers';
+
+// config.timezone is Asia/Kolkata (UTC+05:30) in tests
+const SUNDAY_EVENING = new Date('2026-10-18T14:30:00Z'); // 20:00 IST, Sunday 18 October
+const MONTH_END_EVENING = new Date('2026-10-31T14:30:00Z'); // 20:00 IST, Saturday 31 October
+
+function story(title: string, category: string, coverage: number = 1): VerifiedNewsItem {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return {
+    title,
+    url: `https://example.com/${slug}`,
+    source: 'Economic Times',
+    category,
+    isVerified: true,
+    alsoCoveredBy: Array.from({ length: coverage - 1 }, (_, i) => ({ title, url: `https://o${i}.example.com/${slug}`, source: `Outlet ${i}` })),
+  };
+}
+
+let watchlistDb: { db: AppDatabase; dispose: () => void };
+let watchlist: WatchlistService;
+
+beforeAll(async () => {
+  watchlistDb = await openTestDatabase();
+  watchlist = new WatchlistService(watchlistDb.db);
+  watchlist.initialize(DEFAULT_WATCHLIST);
+  registerBuiltInCollectors({ watchlist });
+});
+
+afterAll(() => watchlistDb.dispose());
+
+describe('getDigestStart', () => {
+  it('starts the weekly digest at local midnight six days back', () => {
+    // Monday 12 October 00:00 IST
+    expect(getDigestStart('weekly', SUNDAY_EVENING).toISOString()).toBe('2026-10-11T18:30:00.000Z');
+  });
+
+  it('starts the monthly digest at local midnight on the 1st', () => {
+    expect(getDigestStart('monthly', MONTH_END_EVENING).toISOString()).toBe('2026-09-30T18:30:00.000Z');
+    // 20:00 UTC on 31 October is already 1 November in Kolkata
+    expect(getDigestStart('monthly', new Date('2026-10-31T20:00:00Z')).toISOString()).toBe('2026-10-31T18:30:00.000Z');
+  });
+});
+
+describe('isLastDayOfMonth', () => {
+  it('follows the local date', () => {
+    expect(isLastDayOfMonth(MONTH_END_EVENING)).toBe(true);
+    expect(isLastDayOfMonth(new Date('2026-10-30T19:00:00Z'))).toBe(true); // 00:30 IST on the 31st
+    expect(isLastDayOfMonth(new Date('2026-10-30T18:00:00Z'))).toBe(false); // 23:30 IST on the 30th
+    expect(isLastDayOfMonth(new Date('2026-10-31T19:00:00Z'))).toBe(false); // 1 November in IST
+  });
+
+  it('handles February in leap and common years', () => {
+    expect(isLastDayOfMonth(new Date('2027-02-28T06:00:00Z'))).toBe(true);
+    expect(isLastDayOfMonth(new Date('2028-02-28T06:00:00Z'))).toBe(false);
+    expect(isLastDayOfMonth(new Date('2028-02-29T06:00:00Z'))).toBe(true);
+  });
+});
+
+describe('pickBiggestMovers', () => {
+  const move = (symbol: string, changePercent: number): PricePerformance =>
+    ({ symbol, name: symbol, kind: 'stock', currency: 'INR', price: 100, startPrice: 100, changePercent });
+
+  it('picks the largest moves either way and skips flat ones', () => {
+    const movers = pickBiggestMovers([move('A', 1.2), move('B', -6.5), move('C', 0), move('D', 3.1), move('E', -0.4)], 3);
+
+    expect(movers.map(m => m.symbol)).toEqual(['B', 'D', 'A']);
+  });
+});
+
+describe('buildDigest', () => {
+  let db: AppDatabase;
+  let dispose: () => void;
+  let archive: StoryArchiveService;
+  let priceHistory: PriceHistoryService;
+
+  beforeEach(async () => {
+    ({ db, dispose } = await openTestDatabase());
+    archive = new StoryArchiveService(db);
+    archive.initialize();
+    priceHistory = new PriceHistoryService(db);
+    priceHistory.initialize();
+  });
+
+  afterEach(() => dispose());
+
+  it('returns empty sections and no performance for an empty archive', () => {
+    const digest = buildDigest('weekly', { archive, priceHistory, watchlist }, SUNDAY_EVENING);
+
+    expect(digest.period).toBe('weekly');
+    expect(digest.from.toISOString()).toBe('2026-10-11T18:30:00.000Z');
+    expect(digest.to).toEqual(SUNDAY_EVENING);
+    expect(digest.sections.map(s => [s.category, s.stories.length])).toEqual([
+      ['crypto', 0],
+      ['indian-stocks', 0],
+      ['geopolitical', 0],
+    ]);
+    expect(digest.performance).toEqual([]);
+  });
+
+  it('keeps the weekly window to local days, most corroborated first', () => {
+    archive.record([story('Seen late on Sunday the 11th', 'indian-stocks', 5)], new Date('2026-10-11T18:29:00Z'));
+    archive.record([story('Seen at the start of Monday', 'indian-stocks')], new Date('2026-10-11T18:30:00Z'));
+    archive.record([story('Widely covered midweek', 'indian-stocks', 4)], new Date('2026-10-14T09:00:00Z'));
+    archive.record([story('Summit opens', 'geopolitical', 2)], new Date('2026-10-18T14:00:00Z'));
+    archive.record([story('After the digest went out', 'geopolitical', 9)], new Date('2026-10-18T15:00:00Z'));
+
+    const digest = buildDigest('weekly', { archive, priceHistory, watchlist }, SUNDAY_EVENING);
+    const titles = Object.fromEntries(digest.sections.map(s => [s.category, s.stories.map(st => st.title)]));
+
+    expect(titles).toEqual({
+      'crypto': [],
+      'indian-stocks': ['Widely covered midweek', 'Seen at the start of Monday'],
+      'geopolitical': ['Summit opens'],
+    });
+    expect(digest.sections[1].stories[0].coverage).toBe(4);
+  });
+
+  it('covers the local month so far, including its first hours that are still last month in UTC', () => {
+    archive.record([story('Last story of September', 'crypto')], new Date('2026-09-30T18:00:00Z'));
+    archive.record([story('Just after midnight on 1 October', 'crypto')], new Date('2026-09-30T19:00:00Z'));
+    archive.record([story('Halloween rally', 'crypto', 3)], new Date('2026-10-31T05:00:00Z'));
+
+    const digest = buildDigest('monthly', { archive, priceHistory, watchlist }, MONTH_END_EVENING);
+
+    expect(digest.from.toISOString()).toBe('2026-09-30T18:30:00.000Z');
+    expect(digest.sections[0].stories.map(s => s.title)).toEqual(['Halloween rally', 'Just after midnight on 1 October']);
+  });
+
+  it('caps each section at five stories', () => {
+    for (let i = 1; i <= 7; i++) {
+      archive.record([story(`Crypto story ${i}`, 'crypto', i)], new Date('2026-10-15T06:00:00Z'));
+    }
+
+    const digest = buildDigest('weekly', { archive, priceHistory, watchlist }, SUNDAY_EVENING);
+
+    expect(digest.sections[0].stories.map(s => s.coverage)).toEqual([7, 6, 5, 4, 3]);
+  });
+
+  it('measures performance across the window, stocks before coins', () => {
+    const point = (symbol: string, price: number, kind: 'stock' | 'crypto' = 'stock') =>
+      ({ symbol, kind, price, currency: kind === 'stock' ? 'INR' : 'USD' });
+
+    priceHistory.record([point('TCS.NS', 4000), point('BTC', 60000, 'crypto')], new Date('2026-10-10T10:00:00Z'));
+    priceHistory.record([point('TCS.NS', 4100)], new Date('2026-10-11T10:00:00Z'));
+    // CDSL is tracked from midweek; ETH has a single snapshot and is left out
+    priceHistory.record([point('CDSL.NS', 1500), point('ETH', 3000, 'crypto')], new Date('2026-10-14T10:00:00Z'));
+    priceHistory.record([point('TCS.NS', 3895), point('CDSL.NS', 1650), point('BTC', 66000, 'crypto')], new Date('2026-10-18T10:00:00Z'));
+    // After the digest went out
+    priceHistory.record([point('TCS.NS', 5000)], new Date('2026-10-18T15:00:00Z'));
+
+    const digest = buildDigest('weekly', { archive, priceHistory, watchlist }, SUNDAY_EVENING);
+
+    expect(digest.performance.map(p => [p.symbol, p.name, p.startPrice, p.price])).toEqual([
+      ['TCS.NS', 'TCS', 4100, 3895],
+      ['CDSL.NS', 'CDSL', 1500, 1650],
+      ['BTC', 'BTC', 60000, 66000],
+    ]);
+    expect(digest.performance.map(p => p.changePercent)).toEqual([-5, 10, 10]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { NewsItem } from '../src/types/index';
+import { DEFAULT_WATCHLIST } from '../src/config';
+import { buildEntityDictionary, tagEntities } from '../src/services/entity-tagger';
+
+const coins = [{ id: 'bitcoin', symbol: 'BTC' }, { id: 'ethereum', symbol: 'ETH' }, { id: 'solana', symbol: 'SOL' }];
+
+function item(title: string, summary?: string): NewsItem {
+  return { title, summary, url: 'https://example.com/story', source: 'Example', category: 'indian-stocks' };
+}
+
+function tag(title: string, summary?: string, dictionary = buildEntityDictionary(DEFAULT_WATCHLIST, coins)): string[] | undefined {
+  return tagEntities([item(title, summary)], dictionary)[0].entities;
+}
+
+describe('buildEntityDictionary', () => {
+  it('covers alias-file symbols, tracked stocks and coins', () => {
+    const symbols = new Set(buildEntityDictionary(DEFAULT_WATCHLIST, coins).map(e => e.symbol));
+
+    for (const symbol of ['TCS.NS', 'CDSL.NS', 'HINDUNILVR.NS', 'GOLDBEES.NS', 'INFY.NS', 'BTC', 'ETH', 'SOL']) {
+      expect(symbols).toContain(symbol);
+    }
+  });
+
+  it('matches tracked stocks by symbol, ticker and display name', () => {
+    const dictionary = buildEntityDictionary([{ symbol: 'ZOMATO.NS', name: 'Eternal', newsQuery: 'Zomato' }], [], {});
+
+    expect(tag('ZOMATO.NS hits a high', undefined, dictionary)).toEqual(['ZOMATO.NS']);
+    expect(tag('Zomato shares jump', undefined, dictionary)).toEqual(['ZOMATO.NS']);
+    expect(tag('Eternal posts record orders', undefined, dictionary)).toEqual(['ZOMATO.NS']);
+  });
+
+  it('uses curated aliases instead of the display name when the alias file lists the stock', () => {
+    const dictionary = buildEntityDictionary([{ symbol: 'GOLDBEES.NS', name: 'GOLD', newsQuery: 'Gold price India' }], [], {
+      'GOLDBEES.NS': ['Gold BeES'],
+    });
+
+    expect(tag('Nippon India Gold BeES sees record inflows', undefined, dictionary)).toEqual(['GOLDBEES.NS']);
+    expect(tag('GOLDBEES trades at a premium to NAV', undefined, dictionary)).toEqual(['GOLDBEES.NS']);
+    expect(tag('Gold prices hit a record as the dollar weakens', undefined, dictionary)).toBeUndefined();
+  });
+
+  it('reads coins by symbol and CoinGecko id', () => {
+    const dictionary = buildEntityDictionary([], [{ id: 'avalanche-2', symbol: 'AVAX' }], {});
+
+    expect(tag('AVAX rallies 12%', undefined, dictionary)).toEqual(['AVAX']);
+    expect(tag('avalanche-2 listed on a new exchange', undefined, dictionary)).toEqual(['AVAX']);
+  });
+});
+
+describe('tagEntities', () => {
+  it('tags headlines naming a stock by its full name', () => {
+    expect(tag('Tata Consultancy Services wins $1bn deal')).toEqual(['TCS.NS']);
+    expect(tag('Hindustan Unilever Q2 profit beats estimates')).toEqual(['HINDUNILVR.NS']);
+  });
+
+  it('matches short names only in their exact case', () => {
+    expect(tag('HUL raises prices')).toEqual(['HINDUNILVR.NS']);
+    expect(tag('Hul raises prices')).toBeUndefined();
+    expect(tag('SOL jumps after ETF filing')).toEqual(['SOL']);
+    expect(tag('Sol Lewitt retrospective opens in Mumbai')).toBeUndefined();
+    expect(tag('Traders eye ETH options expiry')).toEqual(['ETH']);
+    expect(tag('Eth Zurich researchers publish study')).toBeUndefined();
+  });
+
+  it('matches longer names in any case but only as whole words', () => {
+    expect(tag('BITCOIN tops $70,000')).toEqual(['BTC']);
+    expect(tag('Infosys shares slip')).toEqual(['INFY.NS']);
+    expect(tag('Bitcoiners celebrate the halving')).toBeUndefined();
+  });
+
+  it('does not tag generic gold stories as the gold ETF', () => {
+    expect(tag('Gold price today: COMEX gold climbs to $2,700')).toBeUndefined();
+    expect(tag('Is bitcoin the new digital gold?')).toEqual(['BTC']);
+    expect(tag('Gold BeES NAV rises with domestic gold prices')).toEqual(['GOLDBEES.NS']);
+  });
+
+  it('tags every symbol a multi-stock headline names, sorted', () => {
+    expect(tag('TCS, Infosys and HDFC Bank drag Sensex lower')).toEqual(['HDFCBANK.NS', 'INFY.NS', 'TCS.NS']);
+    expect(tag('Bitcoin and Ethereum slide as Solana holds')).toEqual(['BTC', 'ETH', 'SOL']);
+  });
+
+  it('reads the summary as well as the title', () => {
+    expect(tag('IT stocks drag the market', 'Infosys fell 4% and TCS 2%.')).toEqual(['INFY.NS', 'TCS.NS']);
+  });
+
+  it('returns untagged items unchanged', () => {
+    const items = [item('Monsoon session of Parliament ends')];
+
+    expect(tagEntities(items, buildEntityDictionary(DEFAULT_WATCHLIST, coins))[0]).toBe(items[0]);
+  });
+});
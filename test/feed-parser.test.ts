@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { detectFeedFormat, parseFeed } from '../src/utils/feed-parser';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+describe('detectFeedFormat', () => {
+  it('recognises RSS 2.0, Atom and RDF documents', () => {
+    expect(detectFeedFormat(fixture('rss2.xml'))).toBe('rss');
+    expect(detectFeedFormat(fixture('atom.xml'))).toBe('atom');
+    expect(detectFeedFormat(fixture('rdf.xml'))).toBe('rdf');
+  });
+
+  it('returns null for other XML', () => {
+    expect(detectFeedFormat('<?xml version="1.0"?><html><body>Not a feed</body></html>')).toBeNull();
+    expect(parseFeed('<opml version="2.0"><body/></opml>', { source: 'X', category: 'geopolitics' })).toEqual([]);
+  });
+});
+
+describe('parseFeed with RSS 2.0', () => {
+  const items = parseFeed(fixture('rss2.xml'), { source: 'Markets Desk', category: 'indian_stocks' });
+
+  it('skips items without a title', () => {
+    expect(items.map(i => i.url)).toEqual([
+      'https://markets.example.com/sensex-falls-500',
+      'https://markets.example.com/rbi-policy',
+      'https://markets.example.com/podcast-42',
+    ]);
+  });
+
+  it('strips markup from CDATA titles and decodes entities in descriptions', () => {
+    expect(items[0].title).toBe('Sensex falls 500 points as IT stocks drag');
+    expect(items[0].summary).toBe('Infosys & TCS led the decline – the index closed at 81,200.');
+    expect(items[0].source).toBe('Markets Desk');
+    expect(items[0].category).toBe('indian_stocks');
+  });
+
+  it('decodes XML entities in plain titles', () => {
+    expect(items[1].title).toBe('RBI holds repo rate at 6.5% & keeps stance "neutral"');
+  });
+
+  it('prefers the link over a non-permalink guid and falls back to a permalink guid', () => {
+    expect(items[0].url).toBe('https://markets.example.com/sensex-falls-500');
+    expect(items[1].url).toBe('https://markets.example.com/rbi-policy');
+  });
+
+  it('reads pubDate, falling back to dc:date', () => {
+    expect(items[0].publishedAt?.toISOString()).toBe('2026-10-19T03:45:00.000Z');
+    expect(items[1].publishedAt?.toISOString()).toBe('2026-10-18T05:00:00.000Z');
+    expect(items[2].publishedAt).toBeUndefined();
+  });
+
+  it('uses content:encoded when there is no description', () => {
+    expect(items[1].summary).toBe('The Monetary Policy Committee voted 5–1.');
+  });
+
+  it('finds images in media thumbnails, image enclosures and image media content', () => {
+    expect(items[0].imageUrl).toBe('https://cdn.example.com/sensex-thumb.jpg');
+    expect(items[1].imageUrl).toBe('https://cdn.example.com/rbi.png');
+    // The audio enclosure is not an image, the media:content cover is
+    expect(items[2].imageUrl).toBe('https://cdn.example.com/podcast-42-cover.jpg');
+  });
+
+  it('honours maxItems', () => {
+    const limited = parseFeed(fixture('rss2.xml'), { source: 'Markets Desk', category: 'indian_stocks', maxItems: 1 });
+    expect(limited).toHaveLength(1);
+  });
+});
+
+describe('parseFeed with Atom', () => {
+  const items = parseFeed(fixture('atom.xml'), { source: 'Chain Watch', category: 'crypto' });
+
+  it('takes the alternate link rather than self', () => {
+    expect(items[0].url).toBe('https://chain.example.com/bitcoin-70k');
+    expect(items[1].url).toBe('https://chain.example.com/eth-upgrade');
+  });
+
+  it('decodes escaped HTML in titles and summaries', () => {
+    expect(items[0].title).toBe('Bitcoin tops $70,000 & ether follows');
+    expect(items[0].summary).toBe('Spot ETF inflows hit a record.');
+  });
+
+  it('reads published, falling back to updated', () => {
+    expect(items[0].publishedAt?.toISOString()).toBe('2026-10-19T05:45:00.000Z');
+    expect(items[1].publishedAt?.toISOString()).toBe('2026-10-18T12:00:00.000Z');
+  });
+
+  it('uses CDATA content when there is no summary', () => {
+    expect(items[1].summary).toBe('Core developers agreed on November.');
+  });
+
+  it('finds media thumbnails', () => {
+    expect(items[0].imageUrl).toBe('https://cdn.example.com/btc.jpg');
+    expect(items[1].imageUrl).toBeUndefined();
+  });
+});
+
+describe('parseFeed with RDF', () => {
+  const items = parseFeed(fixture('rdf.xml'), { source: 'World Briefing', category: 'geopolitics' });
+
+  it('reads items that sit beside the channel', () => {
+    expect(items.map(i => i.title)).toEqual(['G20 leaders meet in Johannesburg', 'Ceasefire talks resume']);
+  });
+
+  it('falls back to rdf:about when an item has no link', () => {
+    expect(items[0].url).toBe('https://world.example.org/summit');
+    expect(items[1].url).toBe('https://world.example.org/ceasefire');
+  });
+
+  it('reads dc:date', () => {
+    expect(items[0].publishedAt?.toISOString()).toBe('2026-10-17T08:00:00.000Z');
+    expect(items[1].publishedAt?.toISOString()).toBe('2026-10-16T14:30:00.000Z');
+    expect(items[0].summary).toBe('Trade and climate top the agenda.');
+  });
+});
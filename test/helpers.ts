@@ -0,0 +1,19 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AppDatabase } from '../src/services/database';
+
+/** A fresh database in its own temp directory; `dispose` closes it and removes the directory */
+export async function openTestDatabase(): Promise<{ db: AppDatabase; dispose: () => void }> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-pulse-test-'));
+  const db = new AppDatabase(path.join(dir, 'test.db'));
+  await db.initialize();
+
+  return {
+    db,
+    dispose: () => {
+      db.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
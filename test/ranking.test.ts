@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { NewsItem, RankingWeights, VerifiedNewsItem } from '../src/types/index';
+import { rankingSignals, rankNews, scoreNewsItem } from '../src/services/ranking';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const NO_WEIGHTS: RankingWeights = {
+  recency: 0,
+  recencyHalfLifeHours: 6,
+  undatedRecency: 0.25,
+  source: 0,
+  corroboration: 0,
+  maxCorroboration: 3,
+  keyword: 0,
+  watchlist: 0,
+  confidence: 0,
+};
+
+/** Only the named signals count, so each test isolates the ones it is about */
+function weights(overrides: Partial<RankingWeights>): RankingWeights {
+  return { ...NO_WEIGHTS, ...overrides };
+}
+
+function item(title: string, overrides: Partial<VerifiedNewsItem> = {}): NewsItem {
+  return {
+    title,
+    url: `https://example.com/${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    source: 'Economic Times',
+    category: 'indian-stocks',
+    publishedAt: new Date(now.getTime() - HOUR_MS),
+    ...overrides,
+  };
+}
+
+function hoursAgo(hours: number): Date {
+  return new Date(now.getTime() - hours * HOUR_MS);
+}
+
+function titles(items: NewsItem[]): string[] {
+  return items.map(i => i.title);
+}
+
+describe('rankNews', () => {
+  it('puts newer items first when only recency counts, with undated items scored as configured', () => {
+    const ranked = rankNews([
+      item('Day old', { publishedAt: hoursAgo(24) }),
+      item('Undated', { publishedAt: undefined }),
+      item('Fresh', { publishedAt: hoursAgo(0.5) }),
+      item('Six hours old', { publishedAt: hoursAgo(6) }),
+    ], {}, weights({ recency: 1 }), now);
+
+    // 24h old is four half-lives (0.0625), below the 0.25 given to undated items
+    expect(titles(ranked)).toEqual(['Fresh', 'Six hours old', 'Undated', 'Day old']);
+  });
+
+  it('halves the recency signal every half-life and treats future dates as new', () => {
+    const w = weights({ recency: 1, recencyHalfLifeHours: 12 });
+
+    expect(rankingSignals(item('x', { publishedAt: hoursAgo(12) }), {}, w, now).recency).toBeCloseTo(0.5);
+    expect(rankingSignals(item('x', { publishedAt: hoursAgo(24) }), {}, w, now).recency).toBeCloseTo(0.25);
+    expect(rankingSignals(item('x', { publishedAt: hoursAgo(-3) }), {}, w, now).recency).toBe(1);
+  });
+
+  it('prefers higher-tier outlets when only the source counts', () => {
+    const ranked = rankNews([
+      item('Aggregator copy', { source: 'Google News: Market' }),
+      item('Unknown blog', { source: 'Some Market Blog' }),
+      item('Wire story', { source: 'Economic Times' }),
+    ], {}, weights({ source: 1 }), now);
+
+    expect(titles(ranked)).toEqual(['Wire story', 'Aggregator copy', 'Unknown blog']);
+    expect(rankingSignals(item('x', { source: 'Economic Times' })).source).toBeGreaterThan(
+      rankingSignals(item('x', { source: 'Google News: Market' })).source
+    );
+  });
+
+  it('ranks stories by how many other outlets corroborate them, capped at maxCorroboration', () => {
+    const copies = (n: number) => Array.from({ length: n }, (_, i) => ({ title: 't', url: `https://o${i}.example.com`, source: `Outlet ${i}` }));
+    const w = weights({ corroboration: 1, maxCorroboration: 2 });
+
+    const ranked = rankNews([
+      item('Single source'),
+      item('Two outlets', { alsoCoveredBy: copies(1) }),
+      item('Five outlets', { alsoCoveredBy: copies(4) }),
+    ], {}, w, now);
+
+    expect(titles(ranked)).toEqual(['Five outlets', 'Two outlets', 'Single source']);
+    expect(rankingSignals(item('x', { alsoCoveredBy: copies(1) }), {}, w, now).corroboration).toBe(0.5);
+    expect(rankingSignals(item('x', { alsoCoveredBy: copies(4) }), {}, w, now).corroboration).toBe(1);
+  });
+
+  it('boosts items tagged with a watched symbol', () => {
+    const items = [
+      item('Wipro shares slip', { entities: ['WIPRO.NS'] }),
+      item('TCS wins a deal', { entities: ['TCS.NS'] }),
+      item('Markets open flat'),
+    ];
+    const w = weights({ recency: 1, watchlist: 2 });
+
+    expect(titles(rankNews(items, { watchSymbols: ['TCS.NS'] }, w, now))[0]).toBe('TCS wins a deal');
+    expect(titles(rankNews(items, { watchSymbols: ['WIPRO.NS'] }, w, now))[0]).toBe('Wipro shares slip');
+    // Without a watchlist every item scores the same, so input order holds
+    expect(titles(rankNews(items, {}, w, now))).toEqual(titles(items));
+  });
+
+  it('matches category keywords from the feeds config as whole words', () => {
+    const w = weights({ keyword: 1 });
+
+    expect(rankingSignals(item('Sensex ends higher'), {}, w, now).keyword).toBe(1);
+    expect(rankingSignals(item('Sensexes of the world'), {}, w, now).keyword).toBe(0);
+    expect(rankingSignals(item('Sensex ends higher', { category: 'crypto' }), {}, w, now).keyword).toBe(0);
+  });
+
+  it('scores verified items by verdict', () => {
+    const w = weights({ confidence: 1 });
+
+    expect(scoreNewsItem(item('Unverified'), {}, w, now)).toBe(1);
+    expect(scoreNewsItem(item('Pass', { isVerified: true, verdict: 'PASS' }), {}, w, now)).toBe(1);
+    expect(scoreNewsItem(item('Uncertain', { isVerified: true, verdict: 'UNCERTAIN' }), {}, w, now)).toBe(0.5);
+    expect(scoreNewsItem(item('Failed', { isVerified: false, verdict: 'FAIL' }), {}, w, now)).toBe(0);
+  });
+
+  it('weighs the signals together', () => {
+    const w = weights({ recency: 1, source: 1, corroboration: 1, watchlist: 1 });
+    const ranked = rankNews([
+      // Fresh but from an aggregator, alone
+      item('Fresh aggregator item', { source: 'Google News: Market', publishedAt: hoursAgo(0) }),
+      // Older, but a top-tier outlet with three others confirming and a watched stock
+      item('Corroborated watched story', {
+        source: 'Moneycontrol',
+        publishedAt: hoursAgo(6),
+        entities: ['RELIANCE.NS'],
+        alsoCoveredBy: [
+          { title: 'a', url: 'https://a.example.com', source: 'LiveMint' },
+          { title: 'b', url: 'https://b.example.com', source: 'Economic Times' },
+          { title: 'c', url: 'https://c.example.com', source: 'Business Standard' },
+        ],
+      }),
+      item('Stale top-tier item', { source: 'LiveMint', publishedAt: hoursAgo(30) }),
+    ], { watchSymbols: ['RELIANCE.NS'] }, w, now);
+
+    expect(titles(ranked)).toEqual(['Corroborated watched story', 'Fresh aggregator item', 'Stale top-tier item']);
+  });
+
+  it('breaks ties by publish time, newest first', () => {
+    const ranked = rankNews([
+      item('Older', { publishedAt: hoursAgo(5) }),
+      item('Newer', { publishedAt: hoursAgo(2) }),
+    ], {}, NO_WEIGHTS, now);
+
+    expect(titles(ranked)).toEqual(['Newer', 'Older']);
+  });
+});
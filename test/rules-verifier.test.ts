@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { NewsItem, VerifiedNewsItem } from '../src/types/index';
+import { config, loadVerificationRules } from '../src/config';
+import { RulesVerifier } from '../src/services/rules-verifier';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function item(title: string, source: string, url: string, extra: Partial<NewsItem> = {}): NewsItem {
+  return { title, url, source, category: 'geopolitical', publishedAt: new Date(), ...extra };
+}
+
+async function verifyOne(news: NewsItem): Promise<VerifiedNewsItem> {
+  const report = await new RulesVerifier(config.verificationRules).verifyNews([news]);
+  expect(report.failedBatches).toEqual([]);
+  return report.items[0];
+}
+
+describe('RulesVerifier', () => {
+  it('passes a tier 1 source on its own trusted domain', async () => {
+    const result = await verifyOne(item('Ceasefire talks resume in Cairo', 'BBC World', 'https://www.bbc.co.uk/news/world-1'));
+
+    expect(result).toMatchObject({ isVerified: true, verdict: 'PASS', verifiedBy: 'rules' });
+    expect(result.verificationNote).toBeUndefined();
+  });
+
+  it('passes a tier 2 source on a trusted domain', async () => {
+    const result = await verifyOne(item('SEC delays decision on ether ETF', 'CoinTelegraph', 'https://cointelegraph.com/news/sec-ether-etf'));
+
+    expect(result.verdict).toBe('PASS');
+  });
+
+  it('fails a lone tier 3 source', async () => {
+    const result = await verifyOne(item('Bitcoin holds above $60,000', 'Google News Crypto', 'https://news.google.com/articles/abc'));
+
+    expect(result).toMatchObject({ isVerified: false, verdict: 'FAIL', verifiedBy: 'rules' });
+    expect(result.verificationNote).toBe('Excluded by rules (score 20: tier 3 source)');
+  });
+
+  it('treats unknown sources as tier 3', async () => {
+    const result = await verifyOne(item('Markets steady ahead of Fed', 'Some Blog', 'https://someblog.example.com/post'));
+
+    expect(result.verdict).toBe('FAIL');
+    expect(result.verificationNote).toContain('tier 3 source');
+  });
+
+  it('lifts a tier 3 story that other outlets also covered, up to the corroboration cap', async () => {
+    const outlet = (n: number) => ({ title: 'Bitcoin holds above $60,000', url: `https://outlet${n}.example.com/btc`, source: `Outlet ${n}` });
+    const base = item('Bitcoin holds above $60,000', 'Google News Crypto', 'https://news.google.com/articles/abc');
+
+    const twoOutlets = await verifyOne({ ...base, alsoCoveredBy: [outlet(1), outlet(2)] });
+    expect(twoOutlets).toMatchObject({ isVerified: true, verdict: 'UNCERTAIN' });
+    expect(twoOutlets.verificationNote).toBe('⚠️ Unverified: score 40: tier 3 source, 2 other outlets');
+
+    const fiveOutlets = await verifyOne({ ...base, alsoCoveredBy: [1, 2, 3, 4, 5].map(outlet) });
+    expect(fiveOutlets.verdict).toBe('PASS');
+  });
+
+  it('fails anything linked from a denied domain, whatever the source tier', async () => {
+    const result = await verifyOne(item('Fed to print money on trees', 'BBC World', 'https://www.theonion.com/fed-trees'));
+
+    expect(result.verdict).toBe('FAIL');
+    expect(result.verificationNote).toBe('Excluded by rules (score 0: theonion.com is on the deny list)');
+  });
+
+  it('penalises a link whose domain does not belong to the named source', async () => {
+    const result = await verifyOne(item('Ceasefire talks resume in Cairo', 'BBC World', 'https://bbc-world-news.example.com/cairo'));
+
+    expect(result.verdict).toBe('UNCERTAIN');
+    expect(result.verificationNote).toContain('link domain bbc-world-news.example.com does not match BBC World');
+  });
+
+  it('does not treat aggregator redirect links as a domain mismatch', async () => {
+    const result = await verifyOne(item('Ceasefire talks resume in Cairo', 'BBC World', 'https://news.google.com/articles/xyz'));
+
+    expect(result.verdict).toBe('PASS');
+    expect(result.verificationNote).toBeUndefined();
+  });
+
+  it('penalises clickbait wording', async () => {
+    const result = await verifyOne(item("You won't believe what the Fed did next", 'BBC World', 'https://www.bbc.co.uk/news/fed'));
+
+    expect(result.verdict).toBe('UNCERTAIN');
+    expect(result.verificationNote).toBe('⚠️ Unverified: score 45: tier 1 source, trusted domain, clickbait wording');
+  });
+
+  it('treats a long all-caps title as clickbait but leaves short acronyms alone', async () => {
+    const shouting = await verifyOne(item('MARKETS CRASH AS FED HIKES RATES', 'BBC World', 'https://www.bbc.co.uk/news/markets'));
+    expect(shouting.verificationNote).toContain('clickbait wording');
+
+    const acronyms = await verifyOne(item('RBI, SEBI meet', 'Moneycontrol', 'https://www.moneycontrol.com/news/rbi-sebi'));
+    expect(acronyms.verdict).toBe('PASS');
+  });
+
+  it('penalises sensational wording', async () => {
+    const result = await verifyOne(item('Bitcoin skyrockets past record', 'CoinTelegraph', 'https://cointelegraph.com/news/btc-record'));
+
+    expect(result.verdict).toBe('UNCERTAIN');
+    expect(result.verificationNote).toBe('⚠️ Unverified: score 40: tier 2 source, trusted domain, sensational wording');
+  });
+
+  it('stacks the clickbait and sensational penalties', async () => {
+    const result = await verifyOne(item('Shocking crypto bloodbath wipes out traders', 'CoinTelegraph', 'https://cointelegraph.com/news/bloodbath'));
+
+    expect(result.verdict).toBe('FAIL');
+    expect(result.verificationNote).toContain('clickbait wording, sensational wording');
+  });
+
+  it('docks points for each day past the freshness window', async () => {
+    const url = 'https://www.bbc.co.uk/news/world-2';
+    const slightlyStale = await verifyOne(item('Summit ends without deal', 'BBC World', url, { publishedAt: new Date(Date.now() - 60 * HOUR_MS) }));
+    expect(slightlyStale.verdict).toBe('PASS');
+
+    const stale = await verifyOne(item('Summit ends without deal', 'BBC World', url, { publishedAt: new Date(Date.now() - 120 * HOUR_MS) }));
+    expect(stale.verdict).toBe('UNCERTAIN');
+    expect(stale.verificationNote).toBe('⚠️ Unverified: score 40: tier 1 source, trusted domain, 5 days old');
+  });
+});
+
+describe('loadVerificationRules', () => {
+  const dirs: string[] = [];
+
+  function writeRules(contents: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-pulse-rules-'));
+    dirs.push(dir);
+    const file = path.join(dir, 'verification-rules.json');
+    fs.writeFileSync(file, contents);
+    return file;
+  }
+
+  function validRules(): any {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'config', 'verification-rules.json'), 'utf-8'));
+  }
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the shipped rules file', () => {
+    const file = writeRules(JSON.stringify(validRules()));
+
+    expect(loadVerificationRules(file)).toEqual(validRules());
+  });
+
+  it('rejects a file that is not JSON', () => {
+    const file = writeRules('{ "passScore": 50,');
+
+    expect(() => loadVerificationRules(file)).toThrow(`Could not read verification rules ${file}`);
+  });
+
+  it('rejects a missing file', () => {
+    const file = path.join(os.tmpdir(), 'news-pulse-no-such-rules.json');
+
+    expect(() => loadVerificationRules(file)).toThrow(`Could not read verification rules ${file}`);
+  });
+
+  it('lists every problem in a malformed rules file', () => {
+    const rules = validRules();
+    rules.uncertainScore = 60;
+    delete rules.clickbaitPenalty;
+    delete rules.tierWeights['3'];
+    rules.freshness = { maxAgeHours: '48' };
+    rules.denyDomains = ['theonion.com', 42];
+    rules.clickbaitPatterns = ['you won\'?t believe', '(unclosed'];
+    rules.sourceDomains = ['bbc.co.uk'];
+    const file = writeRules(JSON.stringify(rules));
+
+    expect(() => loadVerificationRules(file)).toThrow([
+      `Invalid verification rules ${file}:`,
+      '  - "clickbaitPenalty" must be a number',
+      '  - "uncertainScore" must not exceed "passScore"',
+      '  - "tierWeights" must give a number for tiers 1, 2 and 3',
+      '  - "freshness" must have numeric "maxAgeHours" and "penaltyPerDay"',
+      '  - "denyDomains" must be an array of strings',
+      '  - clickbaitPatterns: "(unclosed" is not a valid regular expression',
+      '  - "sourceDomains" must map source names to arrays of domains',
+    ].join('\n'));
+  });
+});
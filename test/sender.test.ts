@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BulletinSection, Collector, VerifiedNewsItem } from '../src/types/index';
+import { TelegramSender } from '../src/telegram/sender';
+
+const collector: Collector = {
+  category: 'geopolitical',
+  title: 'GLOBAL NEWS',
+  emoji: '🌍',
+  maxItems: 2,
+  collect: async () => ({ news: [], errors: [] }),
+  emptyResult: () => ({ news: [], errors: [] }),
+  emptyMessage: () => null,
+};
+
+function story(title: string, verdict: 'PASS' | 'FAIL', hoursAgo: number): VerifiedNewsItem {
+  return {
+    title,
+    url: `https://example.com/${title.toLowerCase().replace(/\s+/g, '-')}`,
+    source: 'BBC World',
+    category: 'geopolitical',
+    publishedAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000),
+    isVerified: verdict === 'PASS',
+    verdict,
+    verifiedBy: 'rules',
+  };
+}
+
+function delivery(chatId: string, section: BulletinSection) {
+  return { chatId, sections: [section], context: { watchlist: [], comparisons: new Map(), timeZone: 'Asia/Kolkata' } };
+}
+
+describe('TelegramSender.sendNewsBulletin', () => {
+  it('reports only the items each delivered chat was shown', async () => {
+    const sender = new TelegramSender('test-token', '1');
+    const sent: Array<{ chatId: string; html: string }> = [];
+    vi.spyOn(sender, 'sendHtml').mockImplementation(async (html, chatId = '1') => {
+      if (chatId === 'blocked') throw new Error('network down');
+      sent.push({ chatId, html });
+    });
+
+    const section: BulletinSection = {
+      collector,
+      result: { news: [], errors: [] },
+      news: [
+        story('Summit opens in Geneva', 'PASS', 1),
+        story('Fabricated ceasefire claim', 'FAIL', 0),
+        story('Sanctions widened', 'PASS', 2),
+        story('Election date set', 'PASS', 30),
+      ],
+    };
+
+    const result = await sender.sendNewsBulletin([delivery('42', section), delivery('blocked', section)], []);
+
+    expect(result.delivered).toEqual(['42']);
+    expect(result.failed).toEqual(['blocked']);
+    // The failed verdict is never shown and the third verified story is past maxItems
+    expect(result.shown.get('42')?.map(i => i.title)).toEqual(['Summit opens in Geneva', 'Sanctions widened']);
+    expect(result.shown.has('blocked')).toBe(false);
+    expect(sent[0].html).toContain('Summit opens in Geneva');
+    expect(sent[0].html).not.toContain('Election date set');
+    expect(sent[0].html).not.toContain('Fabricated ceasefire claim');
+  });
+});
@@ -0,0 +1,142 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLocalClockTime, getLocalDateKey, startOfLocalDay, zonedDateTime } from '../src/utils/time';
+import { DeduplicationService } from '../src/services/deduplication';
+import { AppDatabase } from '../src/services/database';
+import { openTestDatabase } from './helpers';
+
+// The server's own zone must never leak into results, so every case runs under several.
+// Each comes with its Date#getTimezoneOffset() in July, to check the switch took effect.
+const SERVER_ZONES: Array<[string, number]> = [
+  ['UTC', 0],
+  ['Asia/Kolkata', -330],
+  ['America/New_York', 240],
+  ['Europe/London', -60],
+  ['Pacific/Auckland', -720],
+  ['Asia/Kathmandu', -345],
+];
+
+describe.each(SERVER_ZONES)('with the server in %s', (serverZone, julyOffset) => {
+  const originalTz = process.env.TZ;
+
+  beforeAll(() => { process.env.TZ = serverZone; });
+  afterAll(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+
+  it('actually switches the process zone', () => {
+    expect(new Date('2026-07-01T12:00:00Z').getTimezoneOffset()).toBe(julyOffset);
+  });
+
+  describe('getLocalClockTime', () => {
+    it('reads the wall clock of the given zone', () => {
+      const instant = new Date('2026-10-19T04:30:00Z');
+
+      expect(getLocalClockTime('Asia/Kolkata', instant)).toBe('10:00');
+      expect(getLocalClockTime('America/New_York', instant)).toBe('00:30');
+      expect(getLocalClockTime('Asia/Kathmandu', instant)).toBe('10:15');
+      expect(getLocalClockTime('UTC', new Date('2026-10-19T00:05:00Z'))).toBe('00:05');
+    });
+
+    it('defaults to config.timezone', () => {
+      expect(getLocalClockTime(undefined, new Date('2026-10-19T18:29:00Z'))).toBe('23:59');
+    });
+  });
+
+  describe('zonedDateTime', () => {
+    it('finds the instant a local wall clock shows a time', () => {
+      expect(zonedDateTime('2026-10-19', '10:00', 'Asia/Kolkata').toISOString()).toBe('2026-10-19T04:30:00.000Z');
+      expect(zonedDateTime('2026-10-19', '00:00', 'Pacific/Auckland').toISOString()).toBe('2026-10-18T11:00:00.000Z');
+      expect(zonedDateTime('2026-01-15', '09:30', 'America/New_York').toISOString()).toBe('2026-01-15T14:30:00.000Z');
+    });
+
+    it('uses the offset in force on that date across daylight-saving changes', () => {
+      // London moves to BST on 29 March 2026 and back on 25 October
+      expect(zonedDateTime('2026-03-28', '08:00', 'Europe/London').toISOString()).toBe('2026-03-28T08:00:00.000Z');
+      expect(zonedDateTime('2026-03-29', '08:00', 'Europe/London').toISOString()).toBe('2026-03-29T07:00:00.000Z');
+      expect(zonedDateTime('2026-10-25', '08:00', 'Europe/London').toISOString()).toBe('2026-10-25T08:00:00.000Z');
+      // New York springs forward at 02:00 on 8 March 2026
+      expect(zonedDateTime('2026-03-08', '03:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    });
+  });
+
+  describe('startOfLocalDay', () => {
+    it('returns local midnight of the local day, not the UTC one', () => {
+      // 20:00 UTC is already the next day in Kolkata
+      const lateUtc = new Date('2026-10-19T20:00:00Z');
+
+      expect(startOfLocalDay('Asia/Kolkata', lateUtc).toISOString()).toBe('2026-10-19T18:30:00.000Z');
+      expect(startOfLocalDay('America/New_York', lateUtc).toISOString()).toBe('2026-10-19T04:00:00.000Z');
+      expect(startOfLocalDay('UTC', lateUtc).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    });
+
+    it('steps back whole local days, across a daylight-saving change', () => {
+      const monday = new Date('2026-10-26T12:00:00Z');
+
+      expect(startOfLocalDay('Asia/Kolkata', monday, 7).toISOString()).toBe('2026-10-18T18:30:00.000Z');
+      // Seven days before Monday 26 October is Monday 19 October, still on BST
+      expect(startOfLocalDay('Europe/London', monday, 7).toISOString()).toBe('2026-10-18T23:00:00.000Z');
+      expect(startOfLocalDay('Europe/London', monday, 0).toISOString()).toBe('2026-10-26T00:00:00.000Z');
+    });
+
+    it('agrees with getLocalDateKey', () => {
+      const instant = new Date('2026-12-31T23:30:00Z');
+
+      expect(getLocalDateKey('Pacific/Auckland', instant)).toBe('2027-01-01');
+      expect(startOfLocalDay('Pacific/Auckland', instant).toISOString()).toBe('2026-12-31T11:00:00.000Z');
+    });
+  });
+
+  describe('DeduplicationService', () => {
+    let db: AppDatabase;
+    let dispose: () => void;
+    let dedup: DeduplicationService;
+
+    function seeAt(iso: string, title: string): void {
+      vi.setSystemTime(new Date(iso));
+      dedup.filterNew([{ title, url: `https://example.com/${title.replace(/\s+/g, '-')}`, source: 'Example', category: 'crypto' }], ['1']);
+    }
+
+    beforeEach(async () => {
+      ({ db, dispose } = await openTestDatabase());
+      dedup = new DeduplicationService(db);
+      dedup.initialize();
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      dispose();
+    });
+
+    it('counts today from local midnight in config.timezone', () => {
+      // Kolkata midnight on 19 October is 18:30 UTC on the 18th
+      seeAt('2026-10-18T18:29:00Z', 'Seen late on the 18th');
+      seeAt('2026-10-18T18:31:00Z', 'Seen just after midnight');
+      seeAt('2026-10-19T12:00:00Z', 'Seen at midday');
+
+      expect(dedup.getStats(new Date('2026-10-19T18:00:00Z'))).toEqual({ total: 3, today: 2 });
+      // 18:30 UTC starts the 20th in Kolkata
+      expect(dedup.getStats(new Date('2026-10-19T18:30:00Z'))).toEqual({ total: 3, today: 0 });
+    });
+
+    it('cleans up entries from before local midnight daysOld days ago', () => {
+      seeAt('2026-10-12T18:29:00Z', 'Seen on the 12th');
+      seeAt('2026-10-12T18:30:00Z', 'Seen at the start of the 13th');
+      seeAt('2026-10-19T03:00:00Z', 'Seen this morning');
+
+      expect(dedup.cleanup(7, new Date('2026-10-20T12:00:00Z'))).toBe(1);
+      expect(dedup.getStats(new Date('2026-10-20T12:00:00Z')).total).toBe(2);
+    });
+
+    it('clears delivery records with the same cutoff', () => {
+      const old = { title: 'Old story', url: 'https://example.com/old', source: 'Example', category: 'crypto' };
+      vi.setSystemTime(new Date('2026-10-01T10:00:00Z'));
+      dedup.markDelivered('1', [old]);
+
+      expect(dedup.filterUndelivered('1', [old])).toEqual([]);
+      dedup.cleanup(7, new Date('2026-10-19T10:00:00Z'));
+      expect(dedup.filterUndelivered('1', [old])).toEqual([old]);
+    });
+  });
+});
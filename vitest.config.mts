@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // config.ts refuses to load without these; tests never reach the real services
+    env: {
+      TELEGRAM_BOT_TOKEN: 'test-token',
+      TELEGRAM_CHAT_ID: '1',
+      NEWS_API_KEY: 'test-key',
+      ANTHROPIC_API_KEY: 'test-key',
+      TIMEZONE: 'Asia/Kolkata',
+    },
+  },
+});